@@ -0,0 +1,200 @@
+#!/usr/bin/env node
+
+/**
+ * Generates src/services/hyphenation-patterns.ts, the Liang hyphenation
+ * patterns and exceptions of the languages the app hyphenates.
+ *
+ * The patterns come from hyph-utf8 (https://github.com/hyphenation/tex-hyphen)
+ * as plain text, found under hyph-utf8/tex/generic/hyph-utf8/patterns/txt
+ * (hyph-<language>.pat.txt, and .hyp.txt for exceptions):
+ *
+ *   node ./scripts/generate-hyphenation-patterns.js <patterns txt dir>
+ *
+ * Each language keeps its own license, recorded in LANGUAGES below and
+ * written into the generated file.
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+const OUTPUT = path.join(__dirname, "../src/services/hyphenation-patterns.ts");
+
+// leftMin and rightMin are the hyph-utf8 hyphenmins of each language
+const LANGUAGES = [
+  {
+    code: "en",
+    file: "hyph-en-us",
+    leftMin: 2,
+    rightMin: 3,
+    notice: [
+      "Copyright (C) 1990, 2004, 2005 Gerard D.C. Kuiken. Copying and",
+      "distribution of this file, with or without modification, are permitted",
+      "in any medium without royalty provided the copyright notice and this",
+      "notice are preserved.",
+    ],
+  },
+  {
+    code: "es",
+    file: "hyph-es",
+    leftMin: 2,
+    rightMin: 2,
+    notice: [
+      "Copyright (C) 1993, 1997, 2001-2019 Javier Bezos, CervanTeX. MIT/X11",
+      "license.",
+    ],
+  },
+  {
+    code: "pt",
+    file: "hyph-pt",
+    leftMin: 2,
+    rightMin: 3,
+    notice: [
+      "Copyright (C) 1987, 1994, 1996, 2015 Pedro J. de Rezende, 1996, 2015",
+      "J. Joao Dias Almeida. BSD 3-clause license.",
+    ],
+  },
+  {
+    code: "de",
+    file: "hyph-de-1996",
+    leftMin: 2,
+    rightMin: 2,
+    notice: ["Copyright the authors named in hyph-de-1996.tex. MIT license."],
+  },
+  {
+    code: "fr",
+    file: "hyph-fr",
+    leftMin: 2,
+    rightMin: 3,
+    notice: [
+      "Copyright (C) 1994-2002 Daniel Flipo, Bernard Gaulle, 2016 Arthur",
+      "Reutenauer. MIT license.",
+    ],
+  },
+  {
+    code: "it",
+    file: "hyph-it",
+    leftMin: 2,
+    rightMin: 2,
+    notice: [
+      "Copyright (C) 2008-2011 Claudio Beccari. LPPL or MIT license, at your",
+      "option.",
+    ],
+  },
+];
+
+/**
+ * Compare strings by code point, as the generated lists are sorted
+ */
+function compareCodePoints(a, b) {
+  const left = [...a];
+  const right = [...b];
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    const diff = left[i].codePointAt(0) - right[i].codePointAt(0);
+    if (diff !== 0) return diff;
+  }
+  return left.length - right.length;
+}
+
+/**
+ * Read a whitespace-separated hyph-utf8 list, or none when the file is
+ * missing (most languages have no exceptions)
+ */
+function readList(file) {
+  if (!fs.existsSync(file)) return [];
+  return fs
+    .readFileSync(file, "utf8")
+    .split(/\s+/)
+    .filter((item) => item.length > 0 && !item.startsWith("%"));
+}
+
+/**
+ * Format a list as a template literal, in lines of about 72 characters
+ */
+function formatList(items) {
+  if (items.length === 0) return '""';
+
+  const lines = [];
+  let line = "";
+  for (const item of items) {
+    if (/[`$\\]/.test(item)) {
+      throw new Error(`Unexpected character in pattern: ${item}`);
+    }
+    if (line && [...line].length + [...item].length + 1 > 72) {
+      lines.push(line);
+      line = item;
+    } else {
+      line = line ? `${line} ${item}` : item;
+    }
+  }
+  lines.push(line);
+  return `\`\n${lines.join("\n")}\n\``;
+}
+
+function main() {
+  const directory = process.argv[2];
+  if (!directory) {
+    console.error(
+      "Usage: node ./scripts/generate-hyphenation-patterns.js <patterns txt dir>",
+    );
+    process.exit(1);
+  }
+
+  const notices = LANGUAGES.map(({ code, file, notice }) =>
+    [`${code} (${file}):`, ...notice].join("\n//   "),
+  );
+
+  let output = `// Hyphenation Patterns Service
+// Liang hyphenation patterns and exceptions of the languages the app
+// hyphenates. Generated by scripts/generate-hyphenation-patterns.js from the
+// hyph-utf8 patterns, under the licenses of their authors:
+//
+// ${notices.join("\n// ")}
+
+/**
+ * Patterns of a language in TeX notation ("1ba", "c3c"), and exceptions
+ * with their hyphens ("hard-ware"), separated by whitespace
+ */
+export interface HyphenationPatterns {
+  leftMin: number; // Letters kept before the first hyphen
+  rightMin: number; // Letters kept after the last hyphen
+  patterns: string;
+  exceptions: string;
+}
+
+export const HYPHENATION_PATTERNS: Record<string, HyphenationPatterns> = {
+`;
+
+  for (const { code, file, leftMin, rightMin } of LANGUAGES) {
+    // One pattern per letter sequence, sorted by its letters
+    const byLetters = new Map();
+    for (const pattern of readList(path.join(directory, `${file}.pat.txt`))) {
+      byLetters.set(pattern.replace(/\d/g, ""), pattern);
+    }
+    const patterns = [...byLetters]
+      .sort(
+        ([a, patternA], [b, patternB]) =>
+          compareCodePoints(a, b) || compareCodePoints(patternA, patternB),
+      )
+      .map(([, pattern]) => pattern);
+    const exceptions = [
+      ...new Set(readList(path.join(directory, `${file}.hyp.txt`))),
+    ].sort(compareCodePoints);
+    if (patterns.length === 0) throw new Error(`No patterns for ${file}`);
+
+    console.log(
+      `${code}: ${patterns.length} patterns, ${exceptions.length} exceptions`,
+    );
+    output += `  ${code}: {
+    leftMin: ${leftMin},
+    rightMin: ${rightMin},
+    patterns: ${formatList(patterns)},
+    exceptions: ${formatList(exceptions)},
+  },
+`;
+  }
+
+  output += "};\n";
+  fs.writeFileSync(OUTPUT, output);
+}
+
+main();
@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+
+/**
+ * Generates src/services/segmentation-dictionary.ts, the word lists used to
+ * segment unspaced scripts where Intl.Segmenter is not available.
+ *
+ * The lists come from the ICU break iterator dictionaries, found in an ICU
+ * source release under icu4c/source/data/brkitr/dictionaries (the bundled
+ * lists are from ICU 74):
+ *
+ *   node ./scripts/generate-segmentation-dictionary.js <dictionaries dir>
+ *
+ * ICU data is Copyright © 2016 and later Unicode, Inc. and others, under the
+ * Unicode License v3 (https://www.unicode.org/license.txt). The dictionaries
+ * also carry the third-party notices listed for them in ICU's LICENSE file,
+ * which apply to the generated lists as well.
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+const OUTPUT = path.join(
+  __dirname,
+  "../src/services/segmentation-dictionary.ts",
+);
+
+// The Chinese and Japanese dictionary is cut to its most frequent words
+const CJ_SIZE = 60000;
+const KANA_WORD = /^[぀-ヿー]+$/u;
+
+// Common words ICU's lists lack, or that fall outside the kept Chinese and
+// Japanese words (single kanji, inflected verbs)
+const EXTRA_WORDS = {
+  cj:
+    "怎么样 图书馆 河边 笑着 看着 想着 脸上 のに でした ました ません して " +
+    "なった 私 僕 俺 彼 私たち 言った 思った 見た 聞いた 行った 来た 知って " +
+    "分かった 朝ご飯 晩ご飯 気 心 顔 手 足 頭 体 声 空 海 山 川 雨 雪 風 花 木 " +
+    "森 道 町 村 国 家 朝 昼 夜 春 夏 秋 冬 猫 犬 人",
+  th:
+    "ผู้หญิง ที่นี่ ที่นั่น กลางคืน วันนี้ พรุ่งนี้ เมื่อวาน โรงพยาบาล ความรัก " +
+    "ความสุข ความจริง ความคิด",
+};
+
+const DICTIONARIES = [
+  {
+    key: "cj",
+    file: "cjdict.txt",
+    comment: "Chinese and Japanese, the most frequent words",
+  },
+  { key: "th", file: "thaidict.txt", comment: "Thai" },
+  { key: "lo", file: "laodict.txt", comment: "Lao" },
+  { key: "km", file: "khmerdict.txt", comment: "Khmer" },
+  { key: "my", file: "burmesedict.txt", comment: "Burmese" },
+];
+
+/**
+ * Compare strings by code point, so astral characters sort after the BMP
+ */
+function compareCodePoints(a, b) {
+  const left = [...a];
+  const right = [...b];
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    const diff = left[i].codePointAt(0) - right[i].codePointAt(0);
+    if (diff !== 0) return diff;
+  }
+  return left.length - right.length;
+}
+
+/**
+ * Read an ICU dictionary source: one word per line, optionally followed by
+ * a value (a cost for cjdict.txt, lower is more frequent), with # comments
+ */
+function readDictionary(directory, file) {
+  return fs
+    .readFileSync(path.join(directory, file), "utf8")
+    .replace(/^﻿/, "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith("#"))
+    .map((line) => {
+      const [word, value] = line.split(/\s+/);
+      return { word, value: Number(value) || 0 };
+    });
+}
+
+/**
+ * Choose the words kept for a dictionary
+ */
+function selectWords(key, entries) {
+  if (key !== "cj") return entries.map((entry) => entry.word);
+
+  // Single characters are read one at a time anyway, apart from kana
+  return entries
+    .filter(({ word }) => [...word].length >= 2 || KANA_WORD.test(word))
+    .sort((a, b) => a.value - b.value || compareCodePoints(a.word, b.word))
+    .slice(0, CJ_SIZE)
+    .map((entry) => entry.word);
+}
+
+/**
+ * Format a word list as a template literal body, in lines of about 70
+ * characters
+ */
+function formatWords(words) {
+  const lines = [];
+  let line = "";
+  for (const word of words) {
+    if (/[`$\\\s]/.test(word)) {
+      throw new Error(`Unexpected character in word: ${word}`);
+    }
+    if (line && [...line].length + [...word].length + 1 > 70) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  lines.push(line);
+  return lines.join("\n");
+}
+
+function main() {
+  const directory = process.argv[2];
+  if (!directory) {
+    console.error(
+      "Usage: node ./scripts/generate-segmentation-dictionary.js <dictionaries dir>",
+    );
+    process.exit(1);
+  }
+
+  let output = `// Segmentation Dictionary Service
+// Word lists of the unspaced-script languages, for word segmentation where
+// Intl.Segmenter is not available. Generated by
+// scripts/generate-segmentation-dictionary.js from the ICU 74 break iterator
+// dictionaries, © Unicode, Inc. and others, under the Unicode License v3
+// and the notices ICU's LICENSE file gives for them
+
+/**
+ * Whitespace-separated word lists keyed by dictionary name
+ * Chinese and Japanese share one list, as they do in ICU
+ */
+export const SEGMENTATION_DICTIONARY: Record<string, string> = {
+`;
+
+  for (const { key, file, comment } of DICTIONARIES) {
+    const words = selectWords(key, readDictionary(directory, file));
+    const extra = EXTRA_WORDS[key] ? EXTRA_WORDS[key].split(" ") : [];
+    const unique = [...new Set([...words, ...extra])].sort(compareCodePoints);
+    console.log(`${key}: ${unique.length} words`);
+    output += `  // ${comment}\n  ${key}: \`\n${formatWords(unique)}\n\`,\n`;
+  }
+
+  output += "};\n";
+  fs.writeFileSync(OUTPUT, output);
+}
+
+main();
@@ -1,6 +1,7 @@
 // Shelf - Your PDF Library
 
 import { Feather } from "@expo/vector-icons";
+import { Image } from "expo-image";
 import { useFocusEffect, useRouter } from "expo-router";
 import { useCallback, useState } from "react";
 import {
@@ -23,8 +24,10 @@ import {
   calculateProgress,
   deleteBook,
   getAllBooks,
+  getImagePath,
 } from "../services/book-storage";
 import { pickDocument } from "../services/document-picker";
+import { DRMError, UnsupportedFormatError } from "../services/import-errors";
 
 export default function ShelfScreen() {
   const router = useRouter();
@@ -72,7 +75,11 @@ export default function ShelfScreen() {
       setImportStatus("");
     } catch (error: any) {
       Alert.alert(
-        "Import Failed",
+        error instanceof DRMError
+          ? "Protected Book"
+          : error instanceof UnsupportedFormatError
+            ? "Unsupported File"
+            : "Import Failed",
         error.message || "Could not import the document. Please try again.",
       );
     } finally {
@@ -158,7 +165,8 @@ export default function ShelfScreen() {
               className="text-center px-8"
               style={{ color: isDark ? "#737373" : "#a3a3a3" }}
             >
-              Add your first EPUB or PDF to start speed reading. Tap the + button below
+              Add your first EPUB, PDF, Kindle, FB2, Word, OpenDocument, text
+              or Markdown file to start speed reading. Tap the + button below
               to get started.
             </Muted>
           </View>
@@ -181,17 +189,32 @@ export default function ShelfScreen() {
                 >
                   <CardContent className="py-4">
                     <View className="flex-row items-start">
-                      {/* Icon */}
-                      <View
-                        className="w-12 h-12 rounded-lg items-center justify-center mr-4"
-                        style={{ backgroundColor: secondaryBg }}
-                      >
-                        <Feather
-                          name={book.type === "epub" ? "book" : "file-text"}
-                          size={24}
-                          color={mutedIconColor}
+                      {/* Cover or icon */}
+                      {book.cover ? (
+                        <Image
+                          source={{ uri: getImagePath(book.id, book.cover) }}
+                          style={{
+                            width: 48,
+                            height: 72,
+                            borderRadius: 6,
+                            marginRight: 16,
+                            backgroundColor: secondaryBg,
+                          }}
+                          contentFit="cover"
+                          accessibilityLabel={`Cover of ${book.title}`}
                         />
-                      </View>
+                      ) : (
+                        <View
+                          className="w-12 h-12 rounded-lg items-center justify-center mr-4"
+                          style={{ backgroundColor: secondaryBg }}
+                        >
+                          <Feather
+                            name={book.type === "epub" ? "book" : "file-text"}
+                            size={24}
+                            color={mutedIconColor}
+                          />
+                        </View>
+                      )}
 
                       {/* Content */}
                       <View className="flex-1">
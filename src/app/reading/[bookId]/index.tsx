@@ -1,10 +1,12 @@
 // Reading Screen - Speed Reading Interface
 
 import { Feather } from "@expo/vector-icons";
+import { Image } from "expo-image";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
     ActivityIndicator,
+    Alert,
     Animated,
     Pressable,
     Text,
@@ -15,30 +17,60 @@ import { IconButton } from "../../../../components/ui/icon-button";
 import { Progress } from "../../../../components/ui/progress";
 import { P, Small } from "../../../../components/ui/text";
 import "../../../../global.css";
+import { BookDetailsModal } from "../../../components/book-details-modal";
 import { ChaptersModal } from "../../../components/chapters-modal";
+import { NoteModal } from "../../../components/note-modal";
+import { PageModal } from "../../../components/page-modal";
 import { useSettings } from "../../../context/settings-context";
 import { useTheme } from "../../../context/theme-context";
+import { changeBookLanguage } from "../../../services/book-import";
 import {
     Book,
+    BookNote,
+    PageAnchor,
+    WordToken,
+    findNextSentence,
+    findPreviousSentence,
+    flattenChapters,
     getBook,
+    getImagePath,
+    getImageTokenName,
+    getMainTextEnd,
+    getPageAt,
+    loadNotesCache,
     loadWordsCache,
     updateProgress,
 } from "../../../services/book-storage";
+import { splitLongWord } from "../../../services/hyphenation";
+import { isIdeographicWord } from "../../../services/word-segmenter";
 
 // Constants for context view
 const WORDS_PER_LINE = 6;
 const CONTEXT_LINES = 3; // Lines above and below
 
+// The last word of a paragraph stays on screen this many times longer
+const PARAGRAPH_PAUSE = 2.5;
+
 /**
  * Calculate the Optimal Recognition Point (ORP) for a word.
+ * Returns the range of the focus letter, with its combining marks. Words in
+ * ideographs or kana focus on their middle character, as each character is
+ * a syllable or morpheme rather than a letter.
  */
-function calculateORP(word: string): number {
-  const len = word.length;
-  if (len <= 1) return 0;
-  if (len <= 5) return 1;
-  if (len <= 9) return 2;
-  if (len <= 13) return 3;
-  return 4;
+function calculateORP(word: string): { start: number; end: number } {
+  const letters = word.match(/\P{M}\p{M}*/gu) || [];
+  const len = letters.length;
+
+  let index: number;
+  if (isIdeographicWord(word)) index = Math.floor((len - 1) / 2);
+  else if (len <= 1) index = 0;
+  else if (len <= 5) index = 1;
+  else if (len <= 9) index = 2;
+  else if (len <= 13) index = 3;
+  else index = 4;
+
+  const start = letters.slice(0, index).join("").length;
+  return { start, end: start + (letters[index]?.length || 0) };
 }
 
 /**
@@ -84,11 +116,12 @@ export default function ReadingScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { isDark } = useTheme();
-  const { accentColor } = useSettings();
+  const { accentColor, maxWordLength } = useSettings();
 
   // Book and words state
   const [book, setBook] = useState<Book | null>(null);
-  const [words, setWords] = useState<string[]>([]);
+  const [tokens, setTokens] = useState<WordToken[]>([]);
+  const [notes, setNotes] = useState<BookNote[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -96,15 +129,30 @@ export default function ReadingScreen() {
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [wpm, setWpm] = useState(300);
+  // Part of a long word on screen, for the word at `index`
+  const [fragment, setFragment] = useState({ index: 0, part: 0 });
 
   // Chapter modal state
   const [showChapters, setShowChapters] = useState(false);
 
+  // Go to page modal state
+  const [showPageModal, setShowPageModal] = useState(false);
+
+  // Book details modal state
+  const [showDetails, setShowDetails] = useState(false);
+  const [isChangingLanguage, setIsChangingLanguage] = useState(false);
+
+  // Notes shown in the note modal
+  const [openNotes, setOpenNotes] = useState<BookNote[] | null>(null);
+
   // Animation values
   const animatedValue = useRef(new Animated.Value(0)).current;
 
-  // Playback ref for interval
-  const playbackRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Playback ref for the timer of the current word
+  const playbackRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Whether playback stopped at an image and should resume after it
+  const resumeAfterImageRef = useRef(false);
 
   // Animate when play state changes
   useEffect(() => {
@@ -126,12 +174,41 @@ export default function ReadingScreen() {
     };
   }, [bookId]);
 
-  // Handle playback
+  // Words as plain text, for display
+  const words = useMemo(() => tokens.map((token) => token.text), [tokens]);
+
+  // Long words are shown in hyphenated parts, each for a word's time; they
+  // still count as one word for progress
+  const fragments = useMemo(() => {
+    const word = words[currentIndex] || "";
+    if (getImageTokenName(word)) return [word];
+    return splitLongWord(word, maxWordLength, book?.language);
+  }, [words, currentIndex, maxWordLength, book?.language]);
+  const fragmentIndex =
+    fragment.index === currentIndex
+      ? Math.min(fragment.part, fragments.length - 1)
+      : 0;
+
+  // Start each word from its first part, even one read before
+  useEffect(() => {
+    setFragment({ index: currentIndex, part: 0 });
+  }, [currentIndex]);
+
+  // Handle playback, pausing at the end of each paragraph
   useEffect(() => {
     if (isPlaying && words.length > 0) {
       const interval = 60000 / wpm;
-
-      playbackRef.current = setInterval(() => {
+      const isLastFragment = fragmentIndex >= fragments.length - 1;
+      const delay =
+        isLastFragment && tokens[currentIndex + 1]?.paragraphStart
+          ? interval * PARAGRAPH_PAUSE
+          : interval;
+
+      playbackRef.current = setTimeout(() => {
+        if (!isLastFragment) {
+          setFragment({ index: currentIndex, part: fragmentIndex + 1 });
+          return;
+        }
         setCurrentIndex((prev) => {
           if (prev >= words.length - 1) {
             setIsPlaying(false);
@@ -139,15 +216,40 @@ export default function ReadingScreen() {
           }
           return prev + 1;
         });
-      }, interval);
+      }, delay);
 
       return () => {
         if (playbackRef.current) {
-          clearInterval(playbackRef.current);
+          clearTimeout(playbackRef.current);
         }
       };
     }
-  }, [isPlaying, wpm, words.length]);
+  }, [
+    isPlaying,
+    wpm,
+    words.length,
+    currentIndex,
+    tokens,
+    fragmentIndex,
+    fragments.length,
+  ]);
+
+  // Pause on images until the reader taps to continue
+  const currentImage = getImageTokenName(words[currentIndex] || "");
+  useEffect(() => {
+    if (currentImage && isPlaying) {
+      resumeAfterImageRef.current = true;
+      setIsPlaying(false);
+    }
+  }, [currentImage, isPlaying]);
+
+  const handleImageContinue = useCallback(() => {
+    setCurrentIndex((prev) => Math.min(words.length - 1, prev + 1));
+    if (resumeAfterImageRef.current) {
+      resumeAfterImageRef.current = false;
+      setIsPlaying(true);
+    }
+  }, [words.length]);
 
   // Auto-save progress periodically
   useEffect(() => {
@@ -178,7 +280,8 @@ export default function ReadingScreen() {
         return;
       }
 
-      setWords(wordsData);
+      setTokens(wordsData);
+      setNotes(await loadNotesCache(bookId));
     } catch (err) {
       setError("Error loading book");
       console.error(err);
@@ -205,6 +308,18 @@ export default function ReadingScreen() {
     [words.length]
   );
 
+  // Sentence navigation
+  const handleSentence = useCallback(
+    (direction: "previous" | "next") => {
+      setCurrentIndex((prev) =>
+        direction === "previous"
+          ? findPreviousSentence(tokens, prev)
+          : findNextSentence(tokens, prev)
+      );
+    },
+    [tokens]
+  );
+
   // Handle chapter selection
   const handleChapterSelect = useCallback(
     (chapterIdx: number, wordIndex: number) => {
@@ -214,9 +329,46 @@ export default function ReadingScreen() {
     []
   );
 
-  // Calculate progress
+  // Handle print page selection
+  const handlePageSelect = useCallback((page: PageAnchor) => {
+    setCurrentIndex(page.startIndex);
+    setIsPlaying(false);
+  }, []);
+
+  // Process the book again when the reader corrects its language
+  const handleLanguageChange = useCallback(
+    async (language: string) => {
+      if (!book) return;
+      setIsPlaying(false);
+      setIsChangingLanguage(true);
+      try {
+        const updated = await changeBookLanguage(
+          { ...book, currentWord: currentIndex },
+          language
+        );
+        setTokens((await loadWordsCache(updated.id)) || []);
+        setNotes(await loadNotesCache(updated.id));
+        setBook(updated);
+        setCurrentIndex(updated.currentWord);
+      } catch (err) {
+        console.error(err);
+        Alert.alert(
+          "Language Not Changed",
+          "Could not process the book again. Please try again."
+        );
+      } finally {
+        setIsChangingLanguage(false);
+      }
+    },
+    [book, currentIndex]
+  );
+
+  // Calculate progress, ignoring back matter
+  const mainTextEnd = book ? Math.min(getMainTextEnd(book), words.length) : 0;
   const progress =
-    words.length > 0 ? Math.round((currentIndex / words.length) * 100) : 0;
+    mainTextEnd > 0
+      ? Math.min(100, Math.round((currentIndex / mainTextEnd) * 100))
+      : 0;
 
   // Handle back with save
   const handleBack = async () => {
@@ -226,9 +378,41 @@ export default function ReadingScreen() {
     router.back();
   };
 
+  // Footnotes and endnotes by the word they follow
+  const notesByWord = useMemo(() => {
+    const map = new Map<number, BookNote[]>();
+    for (const note of notes) {
+      map.set(note.wordIndex, [...(map.get(note.wordIndex) || []), note]);
+    }
+    return map;
+  }, [notes]);
+  const currentNotes = notesByWord.get(currentIndex);
+
+  // Table or sidebar being read, which the reader can skip past
+  const currentBlock = useMemo(
+    () =>
+      book?.skippableBlocks?.find(
+        (block) =>
+          currentIndex >= block.startIndex && currentIndex < block.endIndex
+      ),
+    [book, currentIndex]
+  );
+
+  const handleSkipBlock = useCallback(() => {
+    if (!currentBlock) return;
+    setCurrentIndex(Math.min(words.length - 1, currentBlock.endIndex));
+  }, [currentBlock, words.length]);
+
   // Get chapters (if available)
   const chapters = book?.chapters || [];
-  const hasChapters = chapters.length > 1;
+  const hasChapters = flattenChapters(chapters).length > 1;
+
+  // Print page the current word is on (if the book has page numbers)
+  const pages = book?.pages || [];
+  const currentPage = useMemo(
+    () => getPageAt(book?.pages || [], currentIndex),
+    [book, currentIndex]
+  );
 
   // Theme-aware colors
   const bgColor = isDark ? "#0a0a0a" : "#ffffff";
@@ -238,19 +422,20 @@ export default function ReadingScreen() {
   const primaryBg = isDark ? "#fafafa" : "#171717";
   const primaryFg = isDark ? "#0a0a0a" : "#fafafa";
 
-  // Current word with ORP calculation
-  const currentWord = words[currentIndex] || "";
-  const orpIndex = useMemo(() => calculateORP(currentWord), [currentWord]);
+  // Current word, or part of it, with ORP calculation
+  const currentWord = fragments[fragmentIndex] || "";
+  const currentFontStyle = tokens[currentIndex]?.emphasis ? "italic" : "normal";
+  const orp = useMemo(() => calculateORP(currentWord), [currentWord]);
 
   // Split word into three parts for highlighting
   const wordParts = useMemo(() => {
     if (!currentWord) return { before: "", focus: "", after: "" };
     return {
-      before: currentWord.slice(0, orpIndex),
-      focus: currentWord[orpIndex] || "",
-      after: currentWord.slice(orpIndex + 1),
+      before: currentWord.slice(0, orp.start),
+      focus: currentWord.slice(orp.start, orp.end),
+      after: currentWord.slice(orp.end),
     };
-  }, [currentWord, orpIndex]);
+  }, [currentWord, orp]);
 
   // Context lines for paused view
   const contextData = useMemo(() => {
@@ -312,16 +497,46 @@ export default function ReadingScreen() {
     );
   }
 
+  // Render the tappable note marks of a word, if it has notes
+  const renderNoteLabels = (wordIdx: number) => {
+    const wordNotes = notesByWord.get(wordIdx);
+    if (!wordNotes) return null;
+    return (
+      <Text
+        style={{ color: accentColor, fontSize: 14, fontWeight: "600" }}
+        onPress={() => setOpenNotes(wordNotes)}
+        suppressHighlighting
+      >
+        {" "}
+        {wordNotes.map((note) => note.label).join(",")}
+      </Text>
+    );
+  };
+
   // Render a word with optional ORP highlighting
   const renderWord = (
     word: string,
     isCurrentWord: boolean,
     wordIdx: number
   ) => {
+    if (getImageTokenName(word) !== null) {
+      return (
+        <Feather
+          key={wordIdx}
+          name="image"
+          size={24}
+          color={isCurrentWord ? accentColor : mutedColor}
+        />
+      );
+    }
+    // Emphasis is shown in italics, headings in a heavier weight
+    const token = tokens[wordIdx];
+    const fontStyle = token?.emphasis ? "italic" : "normal";
+
     if (isCurrentWord) {
       const orp = calculateORP(word);
       return (
-        <Text key={wordIdx} style={{ flexDirection: "row" }}>
+        <Text key={wordIdx} style={{ flexDirection: "row", fontStyle }}>
           <Text
             style={{
               color: textColor,
@@ -329,7 +544,7 @@ export default function ReadingScreen() {
               fontWeight: "600",
             }}
           >
-            {word.slice(0, orp)}
+            {word.slice(0, orp.start)}
           </Text>
           <Text
             style={{
@@ -338,7 +553,7 @@ export default function ReadingScreen() {
               fontWeight: "600",
             }}
           >
-            {word[orp] || ""}
+            {word.slice(orp.start, orp.end)}
           </Text>
           <Text
             style={{
@@ -347,8 +562,9 @@ export default function ReadingScreen() {
               fontWeight: "600",
             }}
           >
-            {word.slice(orp + 1)}
+            {word.slice(orp.end)}
           </Text>
+          {renderNoteLabels(wordIdx)}
         </Text>
       );
     }
@@ -358,10 +574,12 @@ export default function ReadingScreen() {
         style={{
           color: mutedColor,
           fontSize: 24,
-          fontWeight: "400",
+          fontWeight: token?.heading ? "600" : "400",
+          fontStyle,
         }}
       >
         {word}
+        {renderNoteLabels(wordIdx)}
       </Text>
     );
   };
@@ -395,7 +613,11 @@ export default function ReadingScreen() {
           <Small style={{ color: mutedColor }}>{wpm} WPM</Small>
         )}
 
-        <IconButton variant="ghost" onPress={() => {}}>
+        <IconButton
+          variant="ghost"
+          onPress={() => setShowDetails(true)}
+          accessibilityLabel="Book details"
+        >
           <Feather name="more-vertical" size={22} color={textColor} />
         </IconButton>
       </View>
@@ -466,8 +688,8 @@ export default function ReadingScreen() {
                   >
                     {line.map((word, wordIdx) => {
                       const globalWordIdx =
-                        (contextData.currentLineIndex -
-                          lineIdx +
+                        (lineIdx -
+                          contextData.currentLineIndex +
                           Math.floor(currentIndex / WORDS_PER_LINE)) *
                           WORDS_PER_LINE +
                         wordIdx;
@@ -475,7 +697,7 @@ export default function ReadingScreen() {
                         isCurrentLine &&
                         wordIdx === contextData.currentWordInLine;
 
-                      return renderWord(word, isCurrentWord, wordIdx);
+                      return renderWord(word, isCurrentWord, globalWordIdx);
                     })}
                   </View>
                 );
@@ -538,6 +760,7 @@ export default function ReadingScreen() {
                     fontSize: 48,
                     lineHeight: 60,
                     fontWeight: "700",
+                    fontStyle: currentFontStyle,
                     letterSpacing: -1,
                   }}
                 >
@@ -552,6 +775,7 @@ export default function ReadingScreen() {
                   fontSize: 48,
                   lineHeight: 60,
                   fontWeight: "700",
+                  fontStyle: currentFontStyle,
                   letterSpacing: -1,
                 }}
               >
@@ -566,10 +790,16 @@ export default function ReadingScreen() {
                     fontSize: 48,
                     lineHeight: 60,
                     fontWeight: "700",
+                    fontStyle: currentFontStyle,
                     letterSpacing: -1,
                   }}
                 >
                   {wordParts.after}
+                  {currentNotes && (
+                    <Text style={{ color: accentColor, fontSize: 20 }}>
+                      {currentNotes.map((note) => note.label).join(",")}
+                    </Text>
+                  )}
                 </Text>
               </View>
             </View>
@@ -603,6 +833,25 @@ export default function ReadingScreen() {
           paddingBottom: insets.bottom + 8,
         }}
       >
+        {/* Skip Table/Sidebar */}
+        {currentBlock && (
+          <Pressable
+            className="flex-row items-center self-center px-3 py-1 rounded-full mb-3"
+            style={{ backgroundColor: isDark ? "#1f1f1f" : "#f0f0f0" }}
+            onPress={handleSkipBlock}
+          >
+            <Feather
+              name="chevrons-right"
+              size={14}
+              color={mutedColor}
+              style={{ marginRight: 4 }}
+            />
+            <Small style={{ color: mutedColor }}>
+              {currentBlock.kind === "table" ? "Skip table" : "Skip sidebar"}
+            </Small>
+          </Pressable>
+        )}
+
         {/* Progress Bar */}
         <View className="mb-4">
           <Progress
@@ -613,9 +862,22 @@ export default function ReadingScreen() {
             }}
           />
           <View className="flex-row justify-between mt-2">
-            <Small style={{ color: mutedColor }}>
-              {currentIndex.toLocaleString()} / {words.length.toLocaleString()}
-            </Small>
+            <View className="flex-row items-center gap-3">
+              <Small style={{ color: mutedColor }}>
+                {currentIndex.toLocaleString()} / {words.length.toLocaleString()}
+              </Small>
+              {pages.length > 0 && (
+                <Pressable
+                  onPress={() => setShowPageModal(true)}
+                  hitSlop={8}
+                  accessibilityLabel="Go to page"
+                >
+                  <Small style={{ color: mutedColor }}>
+                    {currentPage ? `p. ${currentPage.label}` : "Go to page"}
+                  </Small>
+                </Pressable>
+              )}
+            </View>
             <Small style={{ color: mutedColor }}>{progress}%</Small>
           </View>
         </View>
@@ -625,7 +887,8 @@ export default function ReadingScreen() {
           <IconButton
             variant="ghost"
             size="lg"
-            onPress={() => handleTouch("left")}
+            onPress={() => handleSentence("previous")}
+            accessibilityLabel="Previous sentence"
           >
             <Feather name="skip-back" size={24} color={textColor} />
           </IconButton>
@@ -645,13 +908,67 @@ export default function ReadingScreen() {
           <IconButton
             variant="ghost"
             size="lg"
-            onPress={() => handleTouch("right")}
+            onPress={() => handleSentence("next")}
+            accessibilityLabel="Next sentence"
           >
             <Feather name="skip-forward" size={24} color={textColor} />
           </IconButton>
         </View>
       </View>
 
+      {/* Image Overlay - shown until tapped */}
+      {currentImage && book && (
+        <Pressable
+          className="absolute inset-0"
+          style={{
+            backgroundColor: bgColor,
+            paddingTop: insets.top,
+            paddingBottom: insets.bottom,
+          }}
+          onPress={handleImageContinue}
+          accessibilityLabel="Continue reading"
+        >
+          <Image
+            source={{ uri: getImagePath(book.id, currentImage) }}
+            style={{ flex: 1 }}
+            contentFit="contain"
+          />
+          <Small
+            className="text-center py-4"
+            style={{ color: mutedColor }}
+          >
+            Tap to continue
+          </Small>
+        </Pressable>
+      )}
+
+      {/* Note Modal */}
+      <NoteModal
+        notes={openNotes}
+        onClose={() => setOpenNotes(null)}
+        isDark={isDark}
+      />
+
+      {/* Go to Page Modal */}
+      <PageModal
+        visible={showPageModal}
+        onClose={() => setShowPageModal(false)}
+        pages={pages}
+        currentPage={currentPage}
+        onSelectPage={handlePageSelect}
+        isDark={isDark}
+      />
+
+      {/* Book Details Modal */}
+      <BookDetailsModal
+        visible={showDetails}
+        onClose={() => setShowDetails(false)}
+        book={book}
+        onChangeLanguage={handleLanguageChange}
+        isChangingLanguage={isChangingLanguage}
+        isDark={isDark}
+      />
+
       {/* Chapters Modal */}
       <ChaptersModal
         visible={showChapters}
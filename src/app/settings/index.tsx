@@ -12,6 +12,7 @@ import "../../../global.css";
 import {
     ACCENT_COLORS,
     AccentColor,
+    MAX_WORD_LENGTHS,
     useSettings,
 } from "../../context/settings-context";
 import { ThemeMode, useTheme } from "../../context/theme-context";
@@ -193,11 +194,52 @@ function AccentColorPicker({
   );
 }
 
+// Long word length selector component
+interface WordLengthSelectorProps {
+  isDark: boolean;
+  maxWordLength: number;
+  onSelect: (length: number) => void;
+}
+
+function WordLengthSelector({
+  isDark,
+  maxWordLength,
+  onSelect,
+}: WordLengthSelectorProps) {
+  const activeBg = isDark ? "#fafafa" : "#171717";
+  const activeText = isDark ? "#0a0a0a" : "#fafafa";
+  const inactiveBg = isDark ? "#262626" : "#e5e5e5";
+  const inactiveText = isDark ? "#a3a3a3" : "#737373";
+
+  return (
+    <View className="flex-row gap-2 mt-3">
+      {MAX_WORD_LENGTHS.map((option) => {
+        const isActive = maxWordLength === option.value;
+        return (
+          <Pressable
+            key={option.value}
+            className="flex-1 items-center justify-center py-3 rounded-lg"
+            style={{
+              backgroundColor: isActive ? activeBg : inactiveBg,
+            }}
+            onPress={() => onSelect(option.value)}
+          >
+            <Small style={{ color: isActive ? activeText : inactiveText }}>
+              {option.name}
+            </Small>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
 export default function SettingsScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { isDark, themeMode, setThemeMode } = useTheme();
-  const { accentColor, setAccentColor } = useSettings();
+  const { accentColor, setAccentColor, maxWordLength, setMaxWordLength } =
+    useSettings();
 
   // Theme-aware colors
   const bgColor = isDark ? "#0a0a0a" : "#ffffff";
@@ -275,6 +317,20 @@ export default function SettingsScreen() {
             onSelect={setAccentColor}
           />
           <Separator style={{ backgroundColor: borderColor, marginVertical: 12 }} />
+          <P style={{ color: isDark ? "#fafafa" : "#0a0a0a", marginBottom: 4 }}>
+            Long Words
+          </P>
+          <Muted style={{ color: isDark ? "#a3a3a3" : "#737373" }}>
+            {maxWordLength > 0
+              ? `Split words longer than ${maxWordLength} letters`
+              : "Show every word whole"}
+          </Muted>
+          <WordLengthSelector
+            isDark={isDark}
+            maxWordLength={maxWordLength}
+            onSelect={setMaxWordLength}
+          />
+          <Separator style={{ backgroundColor: borderColor, marginVertical: 12 }} />
           <SettingRow
             icon="zap"
             label="Reading Speed"
@@ -0,0 +1,181 @@
+// Book Details Modal Component
+// Shows a book's metadata and lets the reader correct its language
+
+import { Feather } from "@expo/vector-icons";
+import React from "react";
+import {
+    ActivityIndicator,
+    Modal,
+    Pressable,
+    ScrollView,
+    View,
+} from "react-native";
+import { H3, P, Small } from "../../components/ui/text";
+import { Book } from "../services/book-storage";
+import {
+    SUPPORTED_LANGUAGES,
+    getLanguageName,
+    getPrimaryLanguage,
+} from "../services/language-detector";
+
+interface BookDetailsModalProps {
+  visible: boolean;
+  onClose: () => void;
+  book: Book | null;
+  onChangeLanguage: (language: string) => void;
+  isChangingLanguage: boolean;
+  isDark: boolean;
+}
+
+export function BookDetailsModal({
+  visible,
+  onClose,
+  book,
+  onChangeLanguage,
+  isChangingLanguage,
+  isDark,
+}: BookDetailsModalProps) {
+  // Theme colors
+  const cardColor = isDark ? "#141414" : "#ffffff";
+  const borderColor = isDark ? "#2e2e2e" : "#e5e5e5";
+  const textColor = isDark ? "#fafafa" : "#0a0a0a";
+  const mutedColor = isDark ? "#a3a3a3" : "#737373";
+  const primaryBg = isDark ? "#fafafa" : "#171717";
+  const primaryFg = isDark ? "#0a0a0a" : "#fafafa";
+
+  if (!book) return null;
+
+  const rows: [string, string | undefined][] = [
+    ["Author", book.author],
+    ["Format", book.type.toUpperCase()],
+    ["Words", book.wordCount.toLocaleString()],
+    ["Publisher", book.publisher],
+    ["Published", book.publishedDate],
+    ["ISBN", book.isbn],
+    [
+      "Series",
+      book.series &&
+        (book.seriesIndex !== undefined
+          ? `${book.series} #${book.seriesIndex}`
+          : book.series),
+    ],
+  ];
+
+  // A language outside the supported ones is still offered, as it's current
+  const current = getPrimaryLanguage(book.language);
+  const languages =
+    !book.language || SUPPORTED_LANGUAGES.some((l) => l.code === current)
+      ? SUPPORTED_LANGUAGES
+      : [
+          ...SUPPORTED_LANGUAGES,
+          { code: book.language, name: getLanguageName(book.language) },
+        ];
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent
+      onRequestClose={onClose}
+    >
+      <Pressable
+        className="flex-1 items-center justify-center p-6"
+        style={{ backgroundColor: "rgba(0,0,0,0.6)" }}
+        onPress={onClose}
+      >
+        <Pressable
+          className="w-full rounded-xl"
+          style={{
+            backgroundColor: cardColor,
+            borderWidth: 1,
+            borderColor: borderColor,
+            maxHeight: "80%",
+          }}
+          onPress={() => {}}
+        >
+          {/* Header */}
+          <View
+            className="flex-row items-center justify-between px-4 py-3"
+            style={{
+              borderBottomWidth: 1,
+              borderBottomColor: borderColor,
+            }}
+          >
+            <H3
+              style={{ color: textColor, fontSize: 18, flex: 1 }}
+              numberOfLines={1}
+            >
+              {book.title}
+            </H3>
+            <Pressable className="p-2 -mr-2" onPress={onClose} hitSlop={8}>
+              <Feather name="x" size={22} color={textColor} />
+            </Pressable>
+          </View>
+
+          <ScrollView contentContainerStyle={{ padding: 16, gap: 12 }}>
+            {/* Metadata */}
+            {rows
+              .filter(([, value]) => value)
+              .map(([label, value]) => (
+                <View key={label} className="flex-row justify-between gap-4">
+                  <Small style={{ color: mutedColor }}>{label}</Small>
+                  <Small
+                    style={{
+                      color: textColor,
+                      flexShrink: 1,
+                      textAlign: "right",
+                    }}
+                  >
+                    {value}
+                  </Small>
+                </View>
+              ))}
+
+            {/* Language */}
+            <View
+              className="pt-3 gap-3"
+              style={{ borderTopWidth: 1, borderTopColor: borderColor }}
+            >
+              <View className="flex-row items-center justify-between">
+                <P style={{ color: textColor }}>Language</P>
+                {isChangingLanguage && (
+                  <ActivityIndicator size="small" color={mutedColor} />
+                )}
+              </View>
+              <View className="flex-row flex-wrap gap-2">
+                {languages.map((language) => {
+                  const isSelected =
+                    getPrimaryLanguage(language.code) === current;
+                  return (
+                    <Pressable
+                      key={language.code}
+                      className="rounded-full px-3 py-1 active:opacity-80"
+                      style={{
+                        backgroundColor: isSelected ? primaryBg : "transparent",
+                        borderWidth: 1,
+                        borderColor: isSelected ? primaryBg : borderColor,
+                      }}
+                      disabled={isSelected || isChangingLanguage}
+                      onPress={() => onChangeLanguage(language.code)}
+                    >
+                      <Small
+                        style={{ color: isSelected ? primaryFg : textColor }}
+                      >
+                        {language.name}
+                      </Small>
+                    </Pressable>
+                  );
+                })}
+              </View>
+              <Small style={{ color: mutedColor }}>
+                {book.language
+                  ? "Changing the language processes the book's text again."
+                  : "The language could not be detected. Choosing one improves how the text is cleaned up."}
+              </Small>
+            </View>
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
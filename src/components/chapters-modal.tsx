@@ -1,8 +1,8 @@
 // Chapters Modal Component
-// Displays chapter list for navigation
+// Displays the chapter tree for navigation
 
 import { Feather } from "@expo/vector-icons";
-import React from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
     FlatList,
     Modal,
@@ -22,6 +22,44 @@ interface ChaptersModalProps {
   isDark: boolean;
 }
 
+/**
+ * A chapter with its position in the tree
+ */
+interface ChapterNode {
+  chapter: Chapter;
+  key: string; // Path of child indexes, e.g. "0.2.1"
+  depth: number;
+  flatIndex: number; // Index in depth-first order
+  ancestors: string[];
+}
+
+const ROW_HEIGHT = 65; // Approximate row height
+const INDENT_WIDTH = 20;
+
+/**
+ * List every chapter depth-first with its tree position
+ */
+function buildNodes(chapters: Chapter[]): ChapterNode[] {
+  const nodes: ChapterNode[] = [];
+
+  const walk = (list: Chapter[], prefix: string, ancestors: string[]) => {
+    list.forEach((chapter, i) => {
+      const key = prefix ? `${prefix}.${i}` : `${i}`;
+      nodes.push({
+        chapter,
+        key,
+        depth: ancestors.length,
+        flatIndex: nodes.length,
+        ancestors,
+      });
+      if (chapter.children) walk(chapter.children, key, [...ancestors, key]);
+    });
+  };
+
+  walk(chapters, "", []);
+  return nodes;
+}
+
 export function ChaptersModal({
   visible,
   onClose,
@@ -39,37 +77,58 @@ export function ChaptersModal({
   const mutedColor = isDark ? "#a3a3a3" : "#737373";
   const activeColor = isDark ? "#262626" : "#f5f5f5";
 
-  // Find current chapter based on word index
-  const getCurrentChapterIndex = () => {
-    for (let i = chapters.length - 1; i >= 0; i--) {
-      if (currentIndex >= chapters[i].startIndex) {
-        return i;
-      }
+  const nodes = useMemo(() => buildNodes(chapters), [chapters]);
+
+  // Find the deepest chapter containing the current word
+  const currentNode = useMemo(() => {
+    let found: ChapterNode | undefined;
+    for (const node of nodes) {
+      if (currentIndex >= node.chapter.startIndex) found = node;
     }
-    return 0;
-  };
+    return found || nodes[0];
+  }, [nodes, currentIndex]);
 
-  const currentChapterIdx = getCurrentChapterIndex();
+  // Open the branches leading to the current chapter each time the modal opens
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  useEffect(() => {
+    if (visible) {
+      setExpanded(new Set(currentNode ? currentNode.ancestors : []));
+    }
+  }, [visible, currentNode]);
 
-  const renderChapter = ({
-    item,
-    index,
-  }: {
-    item: Chapter;
-    index: number;
-  }) => {
-    const isCurrentChapter = index === currentChapterIdx;
+  const visibleNodes = nodes.filter((node) =>
+    node.ancestors.every((key) => expanded.has(key)),
+  );
+  const currentRow = currentNode ? visibleNodes.indexOf(currentNode) : -1;
+
+  const toggleExpanded = (key: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const renderChapter = ({ item }: { item: ChapterNode }) => {
+    const isCurrentChapter = item === currentNode;
+    const hasChildren = !!item.chapter.children?.length;
+    const isExpanded = expanded.has(item.key);
 
     return (
       <Pressable
-        className="flex-row items-center px-6 py-4"
+        className="flex-row items-center pr-6 py-4"
         style={{
+          paddingLeft: 24 + item.depth * INDENT_WIDTH,
           backgroundColor: isCurrentChapter ? activeColor : "transparent",
           borderBottomWidth: 1,
           borderBottomColor: borderColor,
         }}
         onPress={() => {
-          onSelectChapter(index, item.startIndex);
+          onSelectChapter(item.flatIndex, item.chapter.startIndex);
           onClose();
         }}
       >
@@ -77,16 +136,30 @@ export function ChaptersModal({
           <P
             style={{
               color: textColor,
-              fontWeight: isCurrentChapter ? "600" : "400",
+              fontWeight: isCurrentChapter || item.depth === 0 ? "600" : "400",
             }}
             numberOfLines={2}
           >
-            {item.title}
+            {item.chapter.title}
           </P>
         </View>
         {isCurrentChapter && (
           <Feather name="check" size={20} color={textColor} />
         )}
+        {hasChildren && (
+          <Pressable
+            className="p-2 -mr-2 ml-2"
+            onPress={() => toggleExpanded(item.key)}
+            hitSlop={8}
+            accessibilityLabel={isExpanded ? "Collapse" : "Expand"}
+          >
+            <Feather
+              name={isExpanded ? "chevron-down" : "chevron-right"}
+              size={20}
+              color={mutedColor}
+            />
+          </Pressable>
+        )}
       </Pressable>
     );
   };
@@ -126,21 +199,21 @@ export function ChaptersModal({
             </H3>
           </View>
           <Muted style={{ color: mutedColor }}>
-            {chapters.length} chapters
+            {nodes.length} chapters
           </Muted>
         </View>
 
-        {/* Chapter List */}
+        {/* Chapter Tree */}
         <FlatList
-          data={chapters}
+          data={visibleNodes}
           renderItem={renderChapter}
-          keyExtractor={(_, index) => `chapter-${index}`}
+          keyExtractor={(item) => `chapter-${item.key}`}
           contentContainerStyle={{ paddingBottom: insets.bottom + 20 }}
           showsVerticalScrollIndicator={false}
-          initialScrollIndex={currentChapterIdx > 0 ? currentChapterIdx : undefined}
+          initialScrollIndex={currentRow > 0 ? currentRow : undefined}
           getItemLayout={(_, index) => ({
-            length: 65, // Approximate row height
-            offset: 65 * index,
+            length: ROW_HEIGHT,
+            offset: ROW_HEIGHT * index,
             index,
           })}
         />
@@ -0,0 +1,80 @@
+// Note Modal Component
+// Displays the footnotes attached to a word
+
+import { Feather } from "@expo/vector-icons";
+import React from "react";
+import {
+    Modal,
+    Pressable,
+    ScrollView,
+    View,
+} from "react-native";
+import { H3, P } from "../../components/ui/text";
+import { BookNote } from "../services/book-storage";
+
+interface NoteModalProps {
+  notes: BookNote[] | null;
+  onClose: () => void;
+  isDark: boolean;
+}
+
+export function NoteModal({ notes, onClose, isDark }: NoteModalProps) {
+  // Theme colors
+  const cardColor = isDark ? "#141414" : "#ffffff";
+  const borderColor = isDark ? "#2e2e2e" : "#e5e5e5";
+  const textColor = isDark ? "#fafafa" : "#0a0a0a";
+
+  return (
+    <Modal
+      visible={notes !== null}
+      animationType="fade"
+      transparent
+      onRequestClose={onClose}
+    >
+      <Pressable
+        className="flex-1 items-center justify-center p-6"
+        style={{ backgroundColor: "rgba(0,0,0,0.6)" }}
+        onPress={onClose}
+      >
+        <Pressable
+          className="w-full rounded-xl"
+          style={{
+            backgroundColor: cardColor,
+            borderWidth: 1,
+            borderColor: borderColor,
+            maxHeight: "70%",
+          }}
+          onPress={() => {}}
+        >
+          {/* Header */}
+          <View
+            className="flex-row items-center justify-between px-4 py-3"
+            style={{
+              borderBottomWidth: 1,
+              borderBottomColor: borderColor,
+            }}
+          >
+            <H3 style={{ color: textColor, fontSize: 18 }}>
+              {notes && notes.length === 1
+                ? `Note ${notes[0].label}`
+                : "Notes"}
+            </H3>
+            <Pressable className="p-2 -mr-2" onPress={onClose} hitSlop={8}>
+              <Feather name="x" size={22} color={textColor} />
+            </Pressable>
+          </View>
+
+          {/* Note Text */}
+          <ScrollView contentContainerStyle={{ padding: 16, gap: 12 }}>
+            {(notes || []).map((note, index) => (
+              <P key={index} style={{ color: textColor }}>
+                {notes && notes.length > 1 ? `${note.label}. ` : ""}
+                {note.text}
+              </P>
+            ))}
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
@@ -0,0 +1,145 @@
+// Page Modal Component
+// Jumps to a print page by its number
+
+import { Feather } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+    Modal,
+    Pressable,
+    TextInput,
+    View,
+} from "react-native";
+import { H3, P, Small } from "../../components/ui/text";
+import { PageAnchor, findPage } from "../services/book-storage";
+
+interface PageModalProps {
+  visible: boolean;
+  onClose: () => void;
+  pages: PageAnchor[];
+  currentPage: PageAnchor | null;
+  onSelectPage: (page: PageAnchor) => void;
+  isDark: boolean;
+}
+
+export function PageModal({
+  visible,
+  onClose,
+  pages,
+  currentPage,
+  onSelectPage,
+  isDark,
+}: PageModalProps) {
+  const [label, setLabel] = useState("");
+  const [notFound, setNotFound] = useState(false);
+
+  // Start empty each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setLabel("");
+      setNotFound(false);
+    }
+  }, [visible]);
+
+  const handleGo = () => {
+    const page = findPage(pages, label);
+    if (!page) {
+      setNotFound(true);
+      return;
+    }
+    onSelectPage(page);
+    onClose();
+  };
+
+  // Theme colors
+  const cardColor = isDark ? "#141414" : "#ffffff";
+  const borderColor = isDark ? "#2e2e2e" : "#e5e5e5";
+  const textColor = isDark ? "#fafafa" : "#0a0a0a";
+  const mutedColor = isDark ? "#a3a3a3" : "#737373";
+  const primaryBg = isDark ? "#fafafa" : "#171717";
+  const primaryFg = isDark ? "#0a0a0a" : "#fafafa";
+
+  const firstLabel = pages[0]?.label;
+  const lastLabel = pages[pages.length - 1]?.label;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent
+      onRequestClose={onClose}
+    >
+      <Pressable
+        className="flex-1 items-center justify-center p-6"
+        style={{ backgroundColor: "rgba(0,0,0,0.6)" }}
+        onPress={onClose}
+      >
+        <Pressable
+          className="w-full rounded-xl"
+          style={{
+            backgroundColor: cardColor,
+            borderWidth: 1,
+            borderColor: borderColor,
+          }}
+          onPress={() => {}}
+        >
+          {/* Header */}
+          <View
+            className="flex-row items-center justify-between px-4 py-3"
+            style={{
+              borderBottomWidth: 1,
+              borderBottomColor: borderColor,
+            }}
+          >
+            <H3 style={{ color: textColor, fontSize: 18 }}>Go to Page</H3>
+            <Pressable className="p-2 -mr-2" onPress={onClose} hitSlop={8}>
+              <Feather name="x" size={22} color={textColor} />
+            </Pressable>
+          </View>
+
+          {/* Page Input */}
+          <View className="p-4 gap-3">
+            <Small style={{ color: mutedColor }}>
+              {currentPage ? `You are on page ${currentPage.label}. ` : ""}
+              Pages {firstLabel}–{lastLabel}
+            </Small>
+            <View className="flex-row items-center gap-3">
+              <TextInput
+                value={label}
+                onChangeText={(text) => {
+                  setLabel(text);
+                  setNotFound(false);
+                }}
+                onSubmitEditing={handleGo}
+                placeholder={currentPage?.label || firstLabel}
+                placeholderTextColor={mutedColor}
+                autoFocus
+                autoCapitalize="none"
+                autoCorrect={false}
+                returnKeyType="go"
+                className="flex-1 rounded-md px-3 py-2"
+                style={{
+                  color: textColor,
+                  borderWidth: 1,
+                  borderColor: borderColor,
+                  fontSize: 16,
+                }}
+              />
+              <Pressable
+                className="rounded-md px-4 py-2 active:opacity-80"
+                style={{ backgroundColor: primaryBg }}
+                onPress={handleGo}
+              >
+                <P style={{ color: primaryFg }}>Go</P>
+              </Pressable>
+            </View>
+            {notFound && (
+              <Small style={{ color: "#ef4444" }}>
+                {`There is no page "${label.trim()}" in this book.`}
+              </Small>
+            )}
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
@@ -1,5 +1,6 @@
 // Settings Context
-// Manages user reading preferences including focus accent color
+// Manages user reading preferences including focus accent color and how
+// long words are split
 
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import React, { createContext, useContext, useEffect, useState } from "react";
@@ -18,9 +19,23 @@ export const ACCENT_COLORS = [
 
 export type AccentColor = (typeof ACCENT_COLORS)[number]["value"];
 
+// Longest word shown at once before it's split into hyphenated parts; 0
+// shows every word whole
+export const MAX_WORD_LENGTHS = [
+  { name: "Off", value: 0 },
+  { name: "10", value: 10 },
+  { name: "13", value: 13 },
+  { name: "16", value: 16 },
+  { name: "20", value: 20 },
+] as const;
+
+const DEFAULT_MAX_WORD_LENGTH = 13;
+
 interface SettingsContextType {
   accentColor: AccentColor;
   setAccentColor: (color: AccentColor) => Promise<void>;
+  maxWordLength: number;
+  setMaxWordLength: (length: number) => Promise<void>;
 }
 
 const SettingsContext = createContext<SettingsContextType | null>(null);
@@ -29,10 +44,14 @@ const SETTINGS_STORAGE_KEY = "@readfast/settings";
 
 interface StoredSettings {
   accentColor?: AccentColor;
+  maxWordLength?: number;
 }
 
 export function SettingsProvider({ children }: { children: React.ReactNode }) {
   const [accentColor, setAccentColorState] = useState<AccentColor>("#ef4444");
+  const [maxWordLength, setMaxWordLengthState] = useState(
+    DEFAULT_MAX_WORD_LENGTH,
+  );
   const [isLoaded, setIsLoaded] = useState(false);
 
   // Load saved settings
@@ -45,6 +64,9 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
             if (parsed.accentColor) {
               setAccentColorState(parsed.accentColor);
             }
+            if (typeof parsed.maxWordLength === "number") {
+              setMaxWordLengthState(parsed.maxWordLength);
+            }
           } catch (e) {
             console.warn("Failed to parse settings:", e);
           }
@@ -64,13 +86,26 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
     await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(parsed));
   };
 
+  // Save long word splitting preference
+  const setMaxWordLength = async (length: number) => {
+    setMaxWordLengthState(length);
+    const currentSettings = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
+    const parsed: StoredSettings = currentSettings
+      ? JSON.parse(currentSettings)
+      : {};
+    parsed.maxWordLength = length;
+    await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(parsed));
+  };
+
   // Don't render until we've loaded the saved preference
   if (!isLoaded) {
     return null;
   }
 
   return (
-    <SettingsContext.Provider value={{ accentColor, setAccentColor }}>
+    <SettingsContext.Provider
+      value={{ accentColor, setAccentColor, maxWordLength, setMaxWordLength }}
+    >
       {children}
     </SettingsContext.Provider>
   );
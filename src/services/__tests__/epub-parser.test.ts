@@ -0,0 +1,99 @@
+import JSZip from "jszip";
+import { parseEPUB } from "../epub-parser";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  jest.requireActual(
+    "@react-native-async-storage/async-storage/jest/async-storage-mock",
+  ),
+);
+
+// The parser reads the book as base64, which the tests put here
+let mockBookData = "";
+jest.mock("expo-file-system/legacy", () => ({
+  EncodingType: { Base64: "base64" },
+  readAsStringAsync: async () => mockBookData,
+}));
+
+const PROSE =
+  "The morning was quiet and the streets were empty as she walked " +
+  "along the river toward the old bridge at the edge of town.";
+
+/**
+ * Build an EPUB 3 book with one chapter and a navigation document
+ */
+async function buildEPUB(chapter: string, nav: string): Promise<string> {
+  const zip = new JSZip();
+  zip.file("mimetype", "application/epub+zip");
+  zip.file(
+    "META-INF/container.xml",
+    `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`,
+  );
+  zip.file(
+    "OEBPS/content.opf",
+    `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:title>Test Book</dc:title>
+    <dc:language>en</dc:language>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="ch1" href="chapter1.xhtml" media-type="application/xhtml+xml"/>
+  </manifest>
+  <spine>
+    <itemref idref="ch1"/>
+  </spine>
+</package>`,
+  );
+  zip.file(
+    "OEBPS/chapter1.xhtml",
+    `<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<body>${chapter}</body>
+</html>`,
+  );
+  zip.file(
+    "OEBPS/nav.xhtml",
+    `<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<body>${nav}</body>
+</html>`,
+  );
+  return zip.generateAsync({ type: "base64" });
+}
+
+describe("parseEPUB", () => {
+  it("keeps page anchors and targets inside hidden elements", async () => {
+    mockBookData = await buildEPUB(
+      `<p>${PROSE}</p>
+<span epub:type="pagebreak" id="page2" title="2" style="display: none">2</span>
+<p>${PROSE}</p>
+<div hidden="hidden"><a id="part2"></a>Hidden heading</div>
+<p>${PROSE}</p>`,
+      `<nav epub:type="toc"><ol>
+  <li><a href="chapter1.xhtml">Start</a></li>
+  <li><a href="chapter1.xhtml#part2">Part Two</a></li>
+</ol></nav>
+<nav epub:type="page-list"><ol>
+  <li><a href="chapter1.xhtml">1</a></li>
+  <li><a href="chapter1.xhtml#page2">2</a></li>
+</ol></nav>`,
+    );
+    const paragraphLength = PROSE.split(" ").length;
+
+    const content = await parseEPUB("book.epub");
+
+    expect(content.pages).toEqual([
+      { label: "1", startIndex: 0 },
+      { label: "2", startIndex: paragraphLength },
+    ]);
+    expect(content.chapters.map((chapter) => chapter.startIndex)).toEqual([
+      0,
+      paragraphLength * 2,
+    ]);
+    expect(content.words.map((word) => word.text)).not.toContain("Hidden");
+  });
+});
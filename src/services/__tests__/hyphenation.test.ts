@@ -0,0 +1,99 @@
+import { findHyphenationPoints, splitLongWord } from "../hyphenation";
+
+describe("findHyphenationPoints", () => {
+  it("finds the hyphenation points of a word", () => {
+    expect(findHyphenationPoints("hyphenation", "en")).toEqual([2, 6, 7]);
+    expect(findHyphenationPoints("Hyphenation", "en-US")).toEqual([2, 6, 7]);
+    expect(findHyphenationPoints("donaudampfschifffahrt", "de")).toEqual([
+      2, 5, 10, 16,
+    ]);
+  });
+
+  it("uses the exceptions of the language", () => {
+    expect(findHyphenationPoints("hardware", "en")).toEqual([4]);
+    // "acad-e-my", without the hyphen that leaves 2 letters after it
+    expect(findHyphenationPoints("academy", "en")).toEqual([4]);
+  });
+
+  it("keeps leftMin and rightMin letters around the hyphens", () => {
+    // English keeps 2 letters before and 3 after, Spanish 2 and 2
+    for (const word of ["academy", "abolition", "unbelievable", "rhythm"]) {
+      for (const point of findHyphenationPoints(word, "en")) {
+        expect(point).toBeGreaterThanOrEqual(2);
+        expect(point).toBeLessThanOrEqual(word.length - 3);
+      }
+    }
+    expect(findHyphenationPoints("casa", "es")).toEqual([2]);
+    expect(findHyphenationPoints("ab", "en")).toEqual([]);
+  });
+
+  it("finds none in languages without patterns", () => {
+    expect(findHyphenationPoints("hyphenation", "xx")).toEqual([]);
+    expect(findHyphenationPoints("hyphenation")).toEqual([]);
+  });
+});
+
+describe("splitLongWord", () => {
+  it("leaves words that fit, and every word when maxLength is 0 or 1", () => {
+    expect(splitLongWord("reading", 13, "en")).toEqual(["reading"]);
+    expect(splitLongWord("abcdefghij", 0)).toEqual(["abcdefghij"]);
+    expect(splitLongWord("abcdefghij", 1)).toEqual(["abcdefghij"]);
+  });
+
+  it("splits at syllables with a trailing hyphen", () => {
+    expect(splitLongWord("Donaudampfschifffahrt", 13, "de")).toEqual([
+      "Donaudampf-",
+      "schifffahrt",
+    ]);
+    expect(splitLongWord("anticonstitutionnellement", 13, "fr")).toEqual([
+      "anticonstitu-",
+      "tionnellement",
+    ]);
+  });
+
+  it("breaks after hyphens without adding one", () => {
+    expect(splitLongWord("well-known-characteristics", 13, "en")).toEqual([
+      "well-known-",
+      "characteris-",
+      "tics",
+    ]);
+  });
+
+  it("cuts words with no hyphenation point at maxLength", () => {
+    expect(splitLongWord("abcdefghijklmnop", 6)).toEqual([
+      "abcde-",
+      "fghij-",
+      "klmnop",
+    ]);
+  });
+
+  it("never cuts a surrogate pair in half", () => {
+    expect(splitLongWord("abcd😀efghijkl", 6)).toEqual([
+      "abcd-",
+      "😀efg-",
+      "hijkl",
+    ]);
+  });
+
+  it("breaks URLs only at separators, without adding hyphens", () => {
+    expect(
+      splitLongWord("https://example.com/some/long/path?query=value", 13, "en"),
+    ).toEqual([
+      "https://",
+      "example.com/",
+      "some/long/",
+      "path?query=",
+      "value",
+    ]);
+    expect(splitLongWord("https://examplesite.org", 10, "en")).toEqual([
+      "https://",
+      "examplesite.",
+      "org",
+    ]);
+    expect(splitLongWord("example.com/reading", 10, "en")).toEqual([
+      "example.",
+      "com/",
+      "reading",
+    ]);
+  });
+});
@@ -0,0 +1,52 @@
+import { createNoteMarker } from "../epub-notes";
+import { removePageNumberLines, tokenizeWords } from "../text-normalizer";
+
+describe("tokenizeWords", () => {
+  it("marks sentence ends", () => {
+    const tokens = tokenizeWords("It was late. Dr. Smith left.");
+    expect(tokens.filter((token) => token.sentenceEnd)).toEqual([
+      { text: "late.", sentenceEnd: true },
+      { text: "left.", sentenceEnd: true },
+    ]);
+  });
+
+  it("marks sentence ends followed by a note reference", () => {
+    const text = `She left the room.${createNoteMarker(0)} Then silence.`;
+    const room = tokenizeWords(text).find((token) =>
+      token.text.startsWith("room."),
+    );
+    expect(room?.sentenceEnd).toBe(true);
+
+    const doctor = tokenizeWords(`Ask Dr.${createNoteMarker(1)} Smith.`)[1];
+    expect(doctor.sentenceEnd).toBeUndefined();
+  });
+});
+
+describe("removePageNumberLines", () => {
+  // A page with one line of prose between its top and bottom edge lines
+  const page = (top: string, bottom: string) => [
+    { text: top, y: 700 },
+    { text: "The text of the page.", y: 400 },
+    { text: bottom, y: 100 },
+  ];
+
+  it("drops page numbers at the page edges", () => {
+    const pages = [
+      page("xii", "42"),
+      page("Page 43", "- 44 -"),
+      page("[45]", "XIV"),
+    ];
+    for (const lines of removePageNumberLines(pages)) {
+      expect(lines.map((line) => line.text)).toEqual(["The text of the page."]);
+    }
+  });
+
+  it("keeps words that only look like Roman numerals", () => {
+    const pages = [
+      page("mild", "civil"),
+      page("dim", "mix"),
+      page("did", "Mill"),
+    ];
+    expect(removePageNumberLines(pages)).toEqual(pages);
+  });
+});
@@ -0,0 +1,116 @@
+import { segmentWords } from "../word-segmenter";
+
+// Hermes has no Intl.Segmenter, so devices segment with the bundled
+// dictionaries; these tests run that path
+describe("segmentWords without Intl.Segmenter", () => {
+  const originalSegmenter = Intl.Segmenter;
+
+  beforeAll(() => {
+    (Intl as { Segmenter?: unknown }).Segmenter = undefined;
+  });
+
+  afterAll(() => {
+    (Intl as { Segmenter?: unknown }).Segmenter = originalSegmenter;
+  });
+
+  it("leaves text in spaced scripts whole", () => {
+    expect(segmentWords("unbelievable")).toEqual(["unbelievable"]);
+  });
+
+  it("splits Thai into dictionary words", () => {
+    expect(
+      segmentWords("ประชากรประมาณหกสิบล้านคนอาศัยอยู่ในประเทศไทย"),
+    ).toEqual([
+      "ประชากร",
+      "ประมาณ",
+      "หก",
+      "สิบ",
+      "ล้าน",
+      "คน",
+      "อาศัย",
+      "อยู่",
+      "ใน",
+      "ประเทศไทย",
+    ]);
+  });
+
+  it("splits Lao, Khmer and Burmese into dictionary words", () => {
+    expect(segmentWords("ພາສາລາວເປັນພາສາທາງການຂອງລາວ")).toEqual([
+      "ພາສາ",
+      "ລາວ",
+      "ເປັນ",
+      "ພາສາ",
+      "ທາງການ",
+      "ຂອງ",
+      "ລາວ",
+    ]);
+    expect(segmentWords("ភាសាខ្មែរគឺជាភាសាផ្លូវការរបស់ប្រទេសកម្ពុជា")).toEqual([
+      "ភាសាខ្មែរ",
+      "គឺជា",
+      "ភាសា",
+      "ផ្លូវ",
+      "ការ",
+      "របស់",
+      "ប្រទេសកម្ពុជា",
+    ]);
+    expect(segmentWords("မြန်မာဘာသာစကားသည်")).toEqual([
+      "မြန်မာဘာသာ",
+      "စကား",
+      "သည်",
+    ]);
+  });
+
+  it("never starts a word with a combining mark", () => {
+    const text = "ผมชอบอ่านหนังสือมากที่สุดในโลกใบนี้";
+    const words = segmentWords(text);
+    expect(words.join("")).toBe(text);
+    for (const word of words) {
+      expect(word).not.toMatch(/^\p{M}/u);
+    }
+  });
+
+  it("splits Chinese into words, attaching punctuation", () => {
+    expect(segmentWords("我们今天去北京。「你好，世界！」他说。")).toEqual([
+      "我们",
+      "今天",
+      "去",
+      "北京。",
+      "「你好，",
+      "世界！」",
+      "他",
+      "说。",
+    ]);
+    expect(segmentWords("图书馆里有很多学生")).toEqual([
+      "图书馆",
+      "里",
+      "有",
+      "很多",
+      "学生",
+    ]);
+  });
+
+  it("reads unknown Han characters one at a time", () => {
+    expect(segmentWords("龘靐齉")).toEqual(["龘", "靐", "齉"]);
+  });
+
+  it("splits Japanese and keeps iteration marks with their character", () => {
+    expect(segmentWords("吾輩は猫である。名前はまだ無い。", "ja")).toEqual([
+      "吾輩",
+      "は",
+      "猫",
+      "で",
+      "ある。",
+      "名前",
+      "は",
+      "まだ",
+      "無い。",
+    ]);
+    expect(segmentWords("人々は日本語を話す。", "ja")).toEqual([
+      "人々",
+      "は",
+      "日本語",
+      "を",
+      "話す。",
+    ]);
+  });
+});
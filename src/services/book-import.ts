@@ -1,15 +1,33 @@
 // Book Import Service
-// Orchestrates the import process for EPUB and PDF files
+// Orchestrates the import process for every supported document type
 
 import {
     Book,
+    BookImage,
+    BookMetadata,
+    BookNote,
+    Chapter,
+    PageAnchor,
+    SkippableBlock,
+    WordToken,
     generateBookId,
     saveBook,
+    saveImagesCache,
+    saveNotesCache,
     saveWordsCache,
+    updateBook,
 } from "./book-storage";
-import { PickedDocument, saveDocumentToLibrary } from "./document-picker";
+import {
+    DocumentType,
+    PickedDocument,
+    saveDocumentToLibrary,
+} from "./document-picker";
 import { parseEPUB } from "./epub-parser";
+import { parseFB2 } from "./fb2-parser";
+import { parseMOBI } from "./mobi-parser";
+import { parseDOCX, parseODT } from "./office-parser";
 import { parsePDF } from "./pdf-parser";
+import { parseMarkdown, parsePlainText } from "./text-parser";
 
 export interface ImportProgress {
   stage: "copying" | "parsing" | "saving";
@@ -18,6 +36,25 @@ export interface ImportProgress {
 
 export type ProgressCallback = (progress: ImportProgress) => void;
 
+/**
+ * The content a parser extracts from a document, in the shape of a book
+ */
+interface ParsedDocument {
+  title?: string;
+  author?: string;
+  language?: string; // The language the text was normalized for
+  words: WordToken[];
+  chapters?: Chapter[];
+  pages?: PageAnchor[];
+  skippableBlocks?: SkippableBlock[];
+  images: BookImage[];
+  notes: BookNote[];
+  details: BookMetadata;
+  cover?: BookImage;
+  startWord?: number;
+  mainTextEnd?: number;
+}
+
 /**
  * Import a picked document into the library
  */
@@ -42,22 +79,9 @@ export async function importBook(
       message: "Extracting text...",
     });
 
-    let title: string;
-    let author: string | undefined;
-    let words: string[];
-    let chapters: { title: string; startIndex: number }[] | undefined;
-
-    if (document.type === "epub") {
-      const content = await parseEPUB(filePath);
-      title = content.metadata.title || extractTitleFromFilename(document.name);
-      author = content.metadata.author;
-      words = content.words;
-      chapters = content.chapters;
-    } else {
-      const content = await parsePDF(filePath);
-      title = content.title || extractTitleFromFilename(document.name);
-      words = content.words;
-    }
+    // Books that don't declare their language are normalized for the one
+    // detected from their text
+    const content = await parseDocument(filePath, document.type);
 
     // Stage 3: Save to storage
     onProgress?.({
@@ -65,24 +89,33 @@ export async function importBook(
       message: "Adding to library...",
     });
 
+    const { words, startWord } = content;
+
     // Create book record
     const book: Book = {
+      ...content.details,
       id: bookId,
-      title,
-      author,
+      title: content.title || extractTitleFromFilename(document.name),
+      author: content.author,
+      language: content.language,
       type: document.type,
       filePath,
       wordCount: words.length,
-      currentWord: 0,
+      currentWord: startWord ?? 0,
+      startWord,
+      mainTextEnd: content.mainTextEnd,
       addedAt: Date.now(),
-      chapters,
+      chapters: content.chapters,
+      pages: content.pages,
+      skippableBlocks: content.skippableBlocks,
+      cover: content.cover?.name,
     };
 
     // Save book metadata
     await saveBook(book);
 
-    // Save word cache
-    await saveWordsCache(bookId, words);
+    // Save the words, notes and images
+    await saveContentCaches(bookId, content);
 
     return book;
   } catch (error) {
@@ -91,12 +124,150 @@ export async function importBook(
   }
 }
 
+/**
+ * Change a book's language, parsing it again so its text is normalized and
+ * segmented for that language
+ * Reading progress keeps its relative position in the new word stream
+ */
+export async function changeBookLanguage(
+  book: Book,
+  language: string,
+): Promise<Book> {
+  try {
+    const content = await parseDocument(book.filePath, book.type, language);
+    const { words } = content;
+    const position = book.wordCount > 0 ? book.currentWord / book.wordCount : 0;
+
+    const updates: Partial<Book> = {
+      language,
+      wordCount: words.length,
+      currentWord: Math.min(
+        Math.round(position * words.length),
+        Math.max(0, words.length - 1),
+      ),
+      startWord: content.startWord,
+      mainTextEnd: content.mainTextEnd,
+      chapters: content.chapters,
+      pages: content.pages,
+      skippableBlocks: content.skippableBlocks,
+      cover: content.cover?.name,
+    };
+
+    await updateBook(book.id, updates);
+    await saveContentCaches(book.id, content);
+
+    return { ...book, ...updates };
+  } catch (error) {
+    console.error("Error changing book language:", error);
+    throw error;
+  }
+}
+
+/**
+ * Save the words, notes and images of a parsed document, replacing those of
+ * any earlier parse
+ */
+async function saveContentCaches(
+  bookId: string,
+  content: ParsedDocument,
+): Promise<void> {
+  // Save word cache
+  await saveWordsCache(bookId, content.words);
+
+  // Save footnotes and endnotes
+  await saveNotesCache(bookId, content.notes);
+
+  // Save the cover and the images shown inline in the word stream
+  await saveImagesCache(
+    bookId,
+    content.cover ? [content.cover, ...content.images] : content.images,
+  );
+}
+
+/**
+ * Parse a document with the parser for its type
+ * The language selects the normalization rules; when it's not given, EPUB
+ * packages use their declared language and other documents the one detected
+ * from their text
+ */
+async function parseDocument(
+  filePath: string,
+  type: DocumentType,
+  language?: string,
+): Promise<ParsedDocument> {
+  if (type === "epub") {
+    const content = await parseEPUB(filePath, language);
+    return {
+      ...content.metadata,
+      words: content.words,
+      chapters: content.chapters,
+      pages: content.pages.length > 0 ? content.pages : undefined,
+      skippableBlocks:
+        content.skippableBlocks.length > 0
+          ? content.skippableBlocks
+          : undefined,
+      images: content.images,
+      notes: content.notes,
+      details: content.details,
+      language: content.language,
+      cover: content.cover,
+      startWord: content.startWord,
+      mainTextEnd: content.mainTextEnd,
+    };
+  }
+
+  let content: {
+    title?: string;
+    author?: string;
+    language?: string;
+    words: WordToken[];
+    chapters: Chapter[];
+    pages?: PageAnchor[];
+  };
+
+  if (type === "mobi") {
+    const { metadata, ...rest } = await parseMOBI(filePath, language);
+    content = { ...metadata, ...rest };
+  } else if (type === "fb2") {
+    const { metadata, ...rest } = await parseFB2(filePath, language);
+    content = { ...metadata, ...rest };
+  } else if (type === "docx" || type === "odt") {
+    const { metadata, ...rest } =
+      type === "docx"
+        ? await parseDOCX(filePath, language)
+        : await parseODT(filePath, language);
+    content = { ...metadata, ...rest };
+  } else if (type === "txt" || type === "md") {
+    content =
+      type === "md"
+        ? await parseMarkdown(filePath, language)
+        : await parsePlainText(filePath, language);
+  } else {
+    content = await parsePDF(filePath, language);
+  }
+
+  return {
+    title: content.title,
+    author: content.author,
+    language: content.language,
+    words: content.words,
+    chapters: content.chapters,
+    pages: content.pages,
+    images: [],
+    notes: [],
+    details: {},
+  };
+}
+
 /**
  * Extract a readable title from filename
  */
 function extractTitleFromFilename(filename: string): string {
   // Remove extension
-  let name = filename.replace(/\.(epub|pdf)$/i, "");
+  let name = filename.replace(
+    /\.(epub|pdf|mobi|azw3?|prc|fb2|fb2\.zip|docx|odt|txt|md|markdown)$/i,
+    "",
+  );
 
   // Replace underscores and hyphens with spaces
   name = name.replace(/[_-]/g, " ");
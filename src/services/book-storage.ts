@@ -3,28 +3,101 @@
 
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as FileSystem from "expo-file-system/legacy";
+import { DocumentType } from "./document-picker";
 
 export interface Chapter {
   title: string;
   startIndex: number; // Word index where chapter begins
+  children?: Chapter[]; // Nested sections (parts -> chapters -> sections)
 }
 
-export interface Book {
+/**
+ * A word of the text, with the reading structure around it
+ */
+export interface WordToken {
+  text: string;
+  paragraphStart?: boolean; // First word of a paragraph
+  sentenceEnd?: boolean; // Last word of a sentence
+  heading?: boolean; // Part of a heading
+  emphasis?: boolean; // Set in italics or bold
+}
+
+export interface PageAnchor {
+  label: string; // Page number as shown to the reader
+  startIndex: number; // Word index where the page begins
+}
+
+/**
+ * A table or sidebar the reader can offer to skip
+ */
+export interface SkippableBlock {
+  kind: "table" | "aside";
+  startIndex: number; // First word of the block
+  endIndex: number; // First word after the block
+}
+
+/**
+ * Bibliographic details read from the book's own metadata
+ */
+export interface BookMetadata {
+  language?: string; // BCP 47 tag, e.g. "en" or "pt-BR"
+  publisher?: string;
+  publishedDate?: string; // As written in the book, usually ISO 8601
+  identifier?: string; // Unique identifier (UUID, URI, ...)
+  isbn?: string;
+  description?: string;
+  subjects?: string[];
+  series?: string;
+  seriesIndex?: number;
+}
+
+export interface Book extends BookMetadata {
   id: string;
   title: string;
   author?: string;
-  type: "epub" | "pdf";
+  type: DocumentType;
   filePath: string;
   wordCount: number;
   currentWord: number; // Reading progress (word index)
+  startWord?: number; // Suggested start, past the front matter
+  mainTextEnd?: number; // Word index where back matter begins
   addedAt: number;
   lastReadAt?: number;
   chapters?: Chapter[];
+  pages?: PageAnchor[];
+  skippableBlocks?: SkippableBlock[];
+  cover?: string; // File name of the cover in the images cache
+}
+
+/**
+ * An image extracted from a book, referenced from the word stream by name
+ */
+export interface BookImage {
+  name: string; // File name, e.g. "image-3.jpg"
+  data: string; // Base64 file content
+}
+
+/**
+ * A footnote or endnote, attached to the word its reference follows
+ */
+export interface BookNote {
+  wordIndex: number;
+  label: string; // Reference mark as printed, e.g. "12" or "*"
+  text: string;
 }
 
 const BOOKS_STORAGE_KEY = "@readfast/books";
 const WORDS_DIR = `${FileSystem.documentDirectory}words/`;
 
+// Token flags, stored as one number per word in the word cache
+const PARAGRAPH_START_FLAG = 1;
+const SENTENCE_END_FLAG = 2;
+const HEADING_FLAG = 4;
+const EMPHASIS_FLAG = 8;
+
+// Marks a word that stands for an image (U+FFFC OBJECT REPLACEMENT CHARACTER)
+const IMAGE_TOKEN_PREFIX = "\uFFFC";
+
 /**
  * Ensure the words directory exists
  */
@@ -106,28 +179,53 @@ export async function deleteBook(bookId: string): Promise<void> {
 }
 
 /**
- * Save word array to cache
+ * Save word tokens to cache, as the words and a parallel array of flags
  */
 export async function saveWordsCache(
   bookId: string,
-  words: string[],
+  tokens: WordToken[],
 ): Promise<void> {
   await ensureWordsDirectory();
   const path = `${WORDS_DIR}${bookId}.json`;
-  await FileSystem.writeAsStringAsync(path, JSON.stringify(words));
+  const cache = {
+    words: tokens.map((token) => token.text),
+    flags: tokens.map(
+      (token) =>
+        (token.paragraphStart ? PARAGRAPH_START_FLAG : 0) |
+        (token.sentenceEnd ? SENTENCE_END_FLAG : 0) |
+        (token.heading ? HEADING_FLAG : 0) |
+        (token.emphasis ? EMPHASIS_FLAG : 0),
+    ),
+  };
+  await FileSystem.writeAsStringAsync(path, JSON.stringify(cache));
 }
 
 /**
- * Load word array from cache
+ * Load word tokens from cache
+ * Caches from older versions hold plain words, without structure
  */
-export async function loadWordsCache(bookId: string): Promise<string[] | null> {
+export async function loadWordsCache(
+  bookId: string,
+): Promise<WordToken[] | null> {
   try {
     const path = `${WORDS_DIR}${bookId}.json`;
     const info = await FileSystem.getInfoAsync(path);
     if (!info.exists) return null;
 
     const json = await FileSystem.readAsStringAsync(path);
-    return JSON.parse(json);
+    const cache: string[] | { words: string[]; flags: number[] } =
+      JSON.parse(json);
+    if (Array.isArray(cache)) return cache.map((text) => ({ text }));
+
+    return cache.words.map((text, i) => {
+      const flags = cache.flags[i] || 0;
+      const token: WordToken = { text };
+      if (flags & PARAGRAPH_START_FLAG) token.paragraphStart = true;
+      if (flags & SENTENCE_END_FLAG) token.sentenceEnd = true;
+      if (flags & HEADING_FLAG) token.heading = true;
+      if (flags & EMPHASIS_FLAG) token.emphasis = true;
+      return token;
+    });
   } catch (error) {
     console.error("Error loading words cache:", error);
     return null;
@@ -135,17 +233,108 @@ export async function loadWordsCache(bookId: string): Promise<string[] | null> {
 }
 
 /**
- * Delete word cache for a book
+ * Save a book's notes next to its word cache, replacing any saved before
+ */
+export async function saveNotesCache(
+  bookId: string,
+  notes: BookNote[],
+): Promise<void> {
+  if (notes.length === 0) {
+    await FileSystem.deleteAsync(getNotesPath(bookId), { idempotent: true });
+    return;
+  }
+
+  await ensureWordsDirectory();
+  await FileSystem.writeAsStringAsync(
+    getNotesPath(bookId),
+    JSON.stringify(notes),
+  );
+}
+
+/**
+ * Load a book's notes, or an empty list if it has none
+ */
+export async function loadNotesCache(bookId: string): Promise<BookNote[]> {
+  try {
+    const path = getNotesPath(bookId);
+    const info = await FileSystem.getInfoAsync(path);
+    if (!info.exists) return [];
+
+    const json = await FileSystem.readAsStringAsync(path);
+    return JSON.parse(json);
+  } catch (error) {
+    console.error("Error loading notes cache:", error);
+    return [];
+  }
+}
+
+function getNotesPath(bookId: string): string {
+  return `${WORDS_DIR}${bookId}-notes.json`;
+}
+
+/**
+ * Delete word cache (and extracted notes and images) for a book
  */
 export async function deleteWordsCache(bookId: string): Promise<void> {
   try {
     const path = `${WORDS_DIR}${bookId}.json`;
     await FileSystem.deleteAsync(path, { idempotent: true });
+    await FileSystem.deleteAsync(getNotesPath(bookId), { idempotent: true });
+    await FileSystem.deleteAsync(getImagesDirectory(bookId), {
+      idempotent: true,
+    });
   } catch (error) {
     console.warn("Error deleting words cache:", error);
   }
 }
 
+/**
+ * Save a book's extracted images next to its word cache, replacing any
+ * saved before
+ */
+export async function saveImagesCache(
+  bookId: string,
+  images: BookImage[],
+): Promise<void> {
+  const dir = getImagesDirectory(bookId);
+  await FileSystem.deleteAsync(dir, { idempotent: true });
+  if (images.length === 0) return;
+
+  await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+  for (const image of images) {
+    await FileSystem.writeAsStringAsync(`${dir}${image.name}`, image.data, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+  }
+}
+
+/**
+ * Get the file URI of an extracted image
+ */
+export function getImagePath(bookId: string, name: string): string {
+  return `${getImagesDirectory(bookId)}${name}`;
+}
+
+function getImagesDirectory(bookId: string): string {
+  return `${WORDS_DIR}${bookId}-images/`;
+}
+
+/**
+ * Create the word that stands for an image in the word stream
+ */
+export function createImageToken(name: string): string {
+  return `${IMAGE_TOKEN_PREFIX}${name}`;
+}
+
+/**
+ * Get the image name of an image token, or null for ordinary words
+ */
+export function getImageTokenName(word: string): string | null {
+  return word.startsWith(IMAGE_TOKEN_PREFIX)
+    ? word.slice(IMAGE_TOKEN_PREFIX.length)
+    : null;
+}
+
 /**
  * Update reading progress
  */
@@ -166,19 +355,105 @@ export function generateBookId(): string {
   return `book_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 }
 
+/**
+ * Get the word index where the main text ends (back matter is not counted)
+ */
+export function getMainTextEnd(book: Book): number {
+  return book.mainTextEnd ?? book.wordCount;
+}
+
 /**
  * Calculate reading progress percentage
  */
 export function calculateProgress(book: Book): number {
-  if (book.wordCount === 0) return 0;
-  return Math.round((book.currentWord / book.wordCount) * 100);
+  const end = getMainTextEnd(book);
+  if (end === 0) return 0;
+  return Math.min(100, Math.round((book.currentWord / end) * 100));
+}
+
+/**
+ * List a chapter tree depth-first, parents before their children
+ */
+export function flattenChapters(chapters: Chapter[]): Chapter[] {
+  const flat: Chapter[] = [];
+  for (const chapter of chapters) {
+    flat.push(chapter);
+    if (chapter.children) flat.push(...flattenChapters(chapter.children));
+  }
+  return flat;
+}
+
+/**
+ * Find the page a word is on (the last page starting at or before it)
+ */
+export function getPageAt(
+  pages: PageAnchor[],
+  wordIndex: number,
+): PageAnchor | null {
+  let low = 0;
+  let high = pages.length - 1;
+  let found: PageAnchor | null = null;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (pages[mid].startIndex <= wordIndex) {
+      found = pages[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Find a page by its printed label, ignoring case ("xii" matches "XII")
+ */
+export function findPage(
+  pages: PageAnchor[],
+  label: string,
+): PageAnchor | null {
+  const wanted = label.trim().toLowerCase();
+  return pages.find((page) => page.label.toLowerCase() === wanted) || null;
+}
+
+/**
+ * Check whether a word begins a sentence (or a paragraph)
+ */
+export function isSentenceStart(tokens: WordToken[], index: number): boolean {
+  if (index <= 0) return true;
+  return !!(tokens[index]?.paragraphStart || tokens[index - 1]?.sentenceEnd);
+}
+
+/**
+ * Find the first word of the sentence before the one a word is in, or of
+ * its own sentence when the word is inside one
+ */
+export function findPreviousSentence(
+  tokens: WordToken[],
+  index: number,
+): number {
+  let i = Math.min(index, tokens.length - 1);
+  if (i > 0 && isSentenceStart(tokens, i)) i--;
+  while (i > 0 && !isSentenceStart(tokens, i)) i--;
+  return Math.max(0, i);
+}
+
+/**
+ * Find the first word of the sentence after the one a word is in
+ */
+export function findNextSentence(tokens: WordToken[], index: number): number {
+  let i = index + 1;
+  while (i < tokens.length && !isSentenceStart(tokens, i)) i++;
+  return Math.min(i, tokens.length - 1);
 }
 
 /**
  * Estimate reading time remaining (at given WPM)
  */
 export function estimateTimeRemaining(book: Book, wpm: number): string {
-  const wordsRemaining = book.wordCount - book.currentWord;
+  const wordsRemaining = Math.max(0, getMainTextEnd(book) - book.currentWord);
   const minutesRemaining = Math.ceil(wordsRemaining / wpm);
 
   if (minutesRemaining < 60) {
@@ -1,10 +1,20 @@
 // Document Picker Service
-// Handles file selection for EPUB and PDF files
+// Handles file selection for EPUB, PDF, MOBI/AZW3, FB2, Word, OpenDocument,
+// plain text and Markdown files
 
 import * as DocumentPicker from "expo-document-picker";
 import * as FileSystem from "expo-file-system/legacy";
-
-export type DocumentType = "epub" | "pdf";
+import { UnsupportedFormatError } from "./import-errors";
+
+export type DocumentType =
+  | "epub"
+  | "pdf"
+  | "mobi"
+  | "fb2"
+  | "docx"
+  | "odt"
+  | "txt"
+  | "md";
 
 export interface PickedDocument {
   uri: string;
@@ -16,8 +26,27 @@ export interface PickedDocument {
 const MIME_TYPES = {
   epub: "application/epub+zip",
   pdf: "application/pdf",
+  mobi: "application/x-mobipocket-ebook",
+  fb2: "application/x-fictionbook+xml",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  odt: "application/vnd.oasis.opendocument.text",
+  txt: "text/plain",
+  md: "text/markdown",
 };
 
+// Some platforms report Markdown under a non-standard MIME type
+const MARKDOWN_MIME_TYPES = [MIME_TYPES.md, "text/x-markdown"];
+
+// Kindle formats (.mobi, .azw, .azw3, .prc) go by several MIME types
+const MOBI_MIME_TYPES = [
+  MIME_TYPES.mobi,
+  "application/vnd.amazon.ebook",
+  "application/vnd.amazon.mobi8-ebook",
+];
+
+// Zipped FB2 files (.fb2.zip) are recognized by their extension
+const FB2_MIME_TYPES = [MIME_TYPES.fb2, "application/x-fictionbook"];
+
 const BOOK_DIR = `${FileSystem.documentDirectory}books/`;
 
 /**
@@ -38,12 +67,22 @@ function generateBookId(): string {
 }
 
 /**
- * Open document picker for EPUB and PDF files
+ * Open document picker for all supported document types
+ * Throws an UnsupportedFormatError when the picked file is in none of them
  */
 export async function pickDocument(): Promise<PickedDocument | null> {
   try {
     const result = await DocumentPicker.getDocumentAsync({
-      type: [MIME_TYPES.epub, MIME_TYPES.pdf],
+      type: [
+        MIME_TYPES.epub,
+        MIME_TYPES.pdf,
+        ...MOBI_MIME_TYPES,
+        ...FB2_MIME_TYPES,
+        MIME_TYPES.docx,
+        MIME_TYPES.odt,
+        MIME_TYPES.txt,
+        ...MARKDOWN_MIME_TYPES,
+      ],
       copyToCacheDirectory: true,
     });
 
@@ -53,16 +92,42 @@ export async function pickDocument(): Promise<PickedDocument | null> {
 
     const asset = result.assets[0];
     const mimeType = asset.mimeType || "";
+    const name = asset.name.toLowerCase();
 
     // Determine document type
     let docType: DocumentType;
-    if (mimeType === MIME_TYPES.epub || asset.name.endsWith(".epub")) {
+    if (mimeType === MIME_TYPES.epub || name.endsWith(".epub")) {
       docType = "epub";
-    } else if (mimeType === MIME_TYPES.pdf || asset.name.endsWith(".pdf")) {
+    } else if (mimeType === MIME_TYPES.pdf || name.endsWith(".pdf")) {
       docType = "pdf";
+    } else if (
+      MOBI_MIME_TYPES.includes(mimeType) ||
+      /\.(mobi|azw3?|prc)$/.test(name)
+    ) {
+      docType = "mobi";
+    } else if (
+      mimeType.startsWith("application/x-fictionbook") ||
+      name.endsWith(".fb2") ||
+      name.endsWith(".fb2.zip")
+    ) {
+      docType = "fb2";
+    } else if (mimeType === MIME_TYPES.docx || name.endsWith(".docx")) {
+      docType = "docx";
+    } else if (mimeType === MIME_TYPES.odt || name.endsWith(".odt")) {
+      docType = "odt";
+    } else if (
+      MARKDOWN_MIME_TYPES.includes(mimeType) ||
+      name.endsWith(".md") ||
+      name.endsWith(".markdown")
+    ) {
+      docType = "md";
+    } else if (mimeType === MIME_TYPES.txt || name.endsWith(".txt")) {
+      docType = "txt";
     } else {
-      console.warn("Unknown document type:", mimeType, asset.name);
-      return null;
+      throw new UnsupportedFormatError(
+        `"${asset.name}" is not a supported file. Choose an EPUB, PDF, MOBI, ` +
+          "AZW3, FB2, Word, OpenDocument, text or Markdown file.",
+      );
     }
 
     return {
@@ -72,6 +137,7 @@ export async function pickDocument(): Promise<PickedDocument | null> {
       size: asset.size || 0,
     };
   } catch (error) {
+    if (error instanceof UnsupportedFormatError) throw error;
     console.error("Error picking document:", error);
     return null;
   }
@@ -86,8 +152,7 @@ export async function saveDocumentToLibrary(
   await ensureBookDirectory();
 
   const bookId = generateBookId();
-  const extension = document.type === "epub" ? "epub" : "pdf";
-  const destPath = `${BOOK_DIR}${bookId}.${extension}`;
+  const destPath = `${BOOK_DIR}${bookId}.${document.type}`;
 
   await FileSystem.copyAsync({
     from: document.uri,
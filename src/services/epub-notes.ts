@@ -0,0 +1,276 @@
+// EPUB Notes Service
+// Finds footnote/endnote references and note bodies in EPUB documents
+
+import {
+  XMLElement,
+  XMLNode,
+  getAttribute,
+  getTextContent,
+  localName,
+} from "./xml-parser";
+
+/**
+ * A spine document parsed into a tree
+ */
+export interface NoteDocument {
+  path: string;
+  root: XMLElement;
+}
+
+/**
+ * Note references found across the book
+ */
+export interface NoteLinks {
+  targets: Set<string>; // "path#id" of every referenced note
+  references: Map<XMLElement, string>; // Reference link -> note target
+}
+
+// epub:type and ARIA role values that mark note bodies
+const NOTE_TYPES = new Set([
+  "footnote",
+  "endnote",
+  "rearnote",
+  "note",
+  "footnotes",
+  "endnotes",
+  "rearnotes",
+  "doc-footnote",
+  "doc-endnote",
+  "doc-endnotes",
+]);
+
+// Elements a classic note anchor may be nested in, inside its note paragraph
+const INLINE_ELEMENTS = new Set([
+  "a",
+  "b",
+  "em",
+  "i",
+  "small",
+  "span",
+  "strong",
+  "sub",
+  "sup",
+]);
+
+// Note labels: "1", "*", "[12]", "(iv)", "†"
+const NOTE_LABEL_PATTERN = /^[[(]?[\w*†‡§¶]{1,4}[\])]?\.?$/;
+
+// A note reference in extracted text is U+FFF9 (INTERLINEAR ANNOTATION
+// ANCHOR) followed by a private-use character encoding its index
+const NOTE_MARKER = "\uFFF9";
+const NOTE_INDEX_BASE = 0xe000;
+const MAX_NOTES_PER_DOCUMENT = 0x18ff;
+const NOTE_MARKER_PATTERN = /\uFFF9([\uE000-\uF8FF])/g;
+
+/**
+ * Find note reference links in reading order, and the notes they point at
+ * Back-links from a note to its reference are not counted as references
+ */
+export function findNoteLinks(
+  documents: NoteDocument[],
+  resolveTarget: (documentPath: string, href: string) => string | null,
+): NoteLinks {
+  const targets = new Set<string>();
+  const references = new Map<XMLElement, string>();
+
+  for (const document of documents) {
+    const walk = (element: XMLElement, inNote: boolean, inSup: boolean) => {
+      const id = getAttribute(element, "id");
+      const insideNote =
+        inNote ||
+        isNoteElement(element) ||
+        (id !== undefined && targets.has(`${document.path}#${id}`));
+      const name = localName(element.name);
+
+      if (name === "a" && !insideNote && isNoteReference(element, inSup)) {
+        const target = resolveTarget(
+          document.path,
+          getAttribute(element, "href") || "",
+        );
+        if (target) {
+          targets.add(target);
+          references.set(element, target);
+        }
+        return;
+      }
+
+      for (const child of element.children) {
+        if (child.type === "element") {
+          walk(child, insideNote, inSup || name === "sup");
+        }
+      }
+    };
+
+    walk(document.root, false, false);
+  }
+
+  return { targets, references };
+}
+
+/**
+ * Check whether an element is marked as a note or a list of notes
+ */
+export function isNoteElement(element: XMLElement): boolean {
+  const types = [
+    ...(getAttribute(element, "type") || "").split(/\s+/),
+    ...(getAttribute(element, "role") || "").split(/\s+/),
+  ];
+  return types.some((type) => NOTE_TYPES.has(type.toLowerCase()));
+}
+
+/**
+ * Get the note an element holds, if it is the body of a referenced note
+ * Classic notes put the target on a small anchor at the start of the
+ * paragraph, so inline descendants are checked too
+ */
+export function getNoteTarget(
+  element: XMLElement,
+  documentPath: string,
+  targets: Set<string>,
+): string | undefined {
+  const id = getAttribute(element, "id");
+  if (id !== undefined && targets.has(`${documentPath}#${id}`)) {
+    return `${documentPath}#${id}`;
+  }
+  if (INLINE_ELEMENTS.has(localName(element.name))) return undefined;
+
+  const findInline = (node: XMLElement): string | undefined => {
+    for (const child of node.children) {
+      if (child.type !== "element") continue;
+      if (!INLINE_ELEMENTS.has(localName(child.name))) continue;
+
+      const childId = getAttribute(child, "id");
+      if (childId !== undefined && targets.has(`${documentPath}#${childId}`)) {
+        return `${documentPath}#${childId}`;
+      }
+      const found = findInline(child);
+      if (found) return found;
+    }
+    return undefined;
+  };
+
+  return findInline(element);
+}
+
+/**
+ * Record the text of every referenced note inside an element
+ */
+export function collectNoteBodies(
+  element: XMLElement,
+  documentPath: string,
+  targets: Set<string>,
+  bodies: Map<string, string>,
+): void {
+  const target = getNoteTarget(element, documentPath, targets);
+  if (target) {
+    if (!bodies.has(target)) bodies.set(target, readNoteText(element));
+    return;
+  }
+
+  for (const child of element.children) {
+    if (child.type === "element") {
+      collectNoteBodies(child, documentPath, targets, bodies);
+    }
+  }
+}
+
+/**
+ * Get the label of a note reference ("[1]" -> "1")
+ */
+export function getNoteLabel(reference: XMLElement): string {
+  return getTextContent(reference)
+    .replace(/[\s[\]().]/g, "")
+    .slice(0, 8);
+}
+
+/**
+ * Create the text marker for a document's nth note reference, or an empty
+ * string when the document has too many references to mark
+ */
+export function createNoteMarker(index: number): string {
+  return index < MAX_NOTES_PER_DOCUMENT
+    ? `${NOTE_MARKER}${String.fromCharCode(NOTE_INDEX_BASE + index)}`
+    : "";
+}
+
+/**
+ * Remove note markers from a word, returning the cleaned word and the
+ * indexes of the references it carried
+ */
+export function takeNoteMarkers(word: string): {
+  word: string;
+  indexes: number[];
+} {
+  if (!word.includes(NOTE_MARKER)) return { word, indexes: [] };
+
+  const indexes: number[] = [];
+  const cleaned = word.replace(NOTE_MARKER_PATTERN, (_, char: string) => {
+    indexes.push(char.charCodeAt(0) - NOTE_INDEX_BASE);
+    return "";
+  });
+  return { word: cleaned, indexes };
+}
+
+/**
+ * Check whether a link looks like a note reference: marked as one, or a
+ * short superscript label pointing at a fragment
+ */
+function isNoteReference(link: XMLElement, inSup: boolean): boolean {
+  const types = [
+    ...(getAttribute(link, "type") || "").split(/\s+/),
+    ...(getAttribute(link, "role") || "").split(/\s+/),
+  ];
+  if (types.includes("noteref") || types.includes("doc-noteref")) return true;
+
+  const href = getAttribute(link, "href") || "";
+  if (!href.includes("#")) return false;
+
+  const label = getTextContent(link).trim();
+  if (!NOTE_LABEL_PATTERN.test(label)) return false;
+
+  const className = getAttribute(link, "class") || "";
+  return (
+    inSup ||
+    hasDescendant(link, "sup") ||
+    /(^|[\s_-])(fn|note|noteref|footnote)/i.test(className)
+  );
+}
+
+/**
+ * Read a note body as a single line, without its back-link label
+ */
+function readNoteText(element: XMLElement): string {
+  const parts: string[] = [];
+
+  const walk = (node: XMLNode) => {
+    if (node.type === "text") {
+      parts.push(node.text);
+      return;
+    }
+    const name = localName(node.name);
+    if (
+      name === "a" &&
+      getAttribute(node, "href") !== undefined &&
+      NOTE_LABEL_PATTERN.test(getTextContent(node).trim())
+    ) {
+      return;
+    }
+    if (!INLINE_ELEMENTS.has(name)) parts.push(" ");
+    node.children.forEach(walk);
+  };
+
+  walk(element);
+  return parts
+    .join("")
+    .replace(/\s+/g, " ")
+    .replace(/^[.:)\]\s]+/, "")
+    .trim();
+}
+
+function hasDescendant(element: XMLElement, name: string): boolean {
+  return element.children.some(
+    (child) =>
+      child.type === "element" &&
+      (localName(child.name) === name || hasDescendant(child, name)),
+  );
+}
@@ -3,11 +3,66 @@
 
 import * as FileSystem from "expo-file-system/legacy";
 import JSZip from "jszip";
-import { normalizeText, stripHtmlTags, tokenizeWords } from "./text-normalizer";
+import {
+  BookImage,
+  BookMetadata,
+  BookNote,
+  Chapter,
+  PageAnchor,
+  SkippableBlock,
+  WordToken,
+  createImageToken,
+} from "./book-storage";
+import {
+  NoteDocument,
+  NoteLinks,
+  collectNoteBodies,
+  createNoteMarker,
+  findNoteLinks,
+  getNoteLabel,
+  getNoteTarget,
+  isNoteElement,
+  takeNoteMarkers,
+} from "./epub-notes";
+import {
+  HiddenSelector,
+  isHiddenElement,
+  parseHiddenSelectors,
+} from "./epub-styles";
+import { DRMError } from "./import-errors";
+import { detectDocumentLanguage } from "./language-detector";
+import {
+  EMPHASIS_END,
+  EMPHASIS_START,
+  HEADING_END,
+  HEADING_START,
+  appendWords,
+  normalizeText,
+  removeStructureMarks,
+  tokenizeWords,
+} from "./text-normalizer";
+import {
+  XMLElement,
+  XMLNode,
+  findElements,
+  getAttribute,
+  getChild,
+  getChildren,
+  getTextContent,
+  localName,
+  parseXML,
+} from "./xml-parser";
 
 interface EPUBSpineItem {
   id: string;
   href: string;
+  linear: boolean; // false for items outside the main reading order
+}
+
+interface EPUBManifestItem {
+  href: string; // Path inside the ZIP, resolved and URL-decoded
+  mediaType: string;
+  properties: string[];
 }
 
 interface EPUBMetadata {
@@ -15,22 +70,202 @@ interface EPUBMetadata {
   author?: string;
 }
 
-export interface EPUBChapter {
+/**
+ * An entry of the NCX or NAV table of contents
+ */
+interface TOCEntry {
   title: string;
-  startIndex: number; // Word index where this chapter starts
+  path: string; // Resolved path of the target document
+  fragment?: string; // Element ID inside the target document
+  children: TOCEntry[];
+}
+
+/**
+ * An EPUB3 landmark or EPUB2 guide reference
+ */
+interface Landmark {
+  type: string; // e.g. "bodymatter", "toc", "copyright-page"
+  path: string;
+  fragment?: string;
+}
+
+/**
+ * A parsed navigation document, with the path its hrefs are relative to
+ */
+interface NavigationDocument {
+  path: string;
+  root: XMLElement;
+}
+
+/**
+ * The EPUB3 NAV document and the EPUB2 NCX, where the book has them
+ */
+interface Navigation {
+  nav: NavigationDocument | null;
+  ncx: NavigationDocument | null;
+}
+
+/**
+ * A print page of the EPUB3 page-list nav or NCX pageList
+ */
+interface PageTarget {
+  label: string; // Page number as printed
+  path: string;
+  fragment?: string;
+}
+
+/**
+ * A run of document text that starts at one or more TOC targets, print page
+ * breaks or skippable block boundaries
+ */
+interface TextSegment {
+  anchors: string[];
+  pages: string[]; // Labels of print pages starting here
+  blockEnd?: boolean; // The open skippable block ends here
+  blockStart?: SkippableBlock["kind"]; // A skippable block starts here
+  text: string;
+}
+
+/**
+ * Callbacks and context for extracting a document's text
+ */
+interface SegmentHandlers {
+  documentPath: string;
+  noteLinks: NoteLinks;
+  hiddenSelectors: HiddenSelector[];
+  onImage: (src: string) => string | null; // Returns the image token
+  onNoteReference: (target: string, label: string) => string; // Returns a marker
 }
 
 interface EPUBContent {
   metadata: EPUBMetadata;
+  details: BookMetadata;
+  language?: string; // The language given, declared or else detected
+  cover?: BookImage;
   text: string;
-  words: string[];
-  chapters: EPUBChapter[];
+  words: WordToken[]; // Includes image tokens
+  chapters: Chapter[];
+  images: BookImage[];
+  notes: BookNote[];
+  pages: PageAnchor[]; // From the page list or pagebreak markers
+  skippableBlocks: SkippableBlock[];
+  startWord?: number; // Where the main text begins
+  mainTextEnd?: number; // Where the back matter begins
 }
 
+// Elements whose content starts on a new line
+const BLOCK_ELEMENTS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "body",
+  "br",
+  "caption",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "li",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "td",
+  "th",
+  "tr",
+  "ul",
+]);
+
+// Elements whose text is read as a heading line
+const HEADING_ELEMENTS = new Set(["h1", "h2", "h3", "h4", "h5", "h6"]);
+
+// Elements whose text is set in italics or bold
+const EMPHASIS_ELEMENTS = new Set(["b", "cite", "em", "i", "strong"]);
+
+// Elements whose content is never shown as text; <rt> and <rp> hold ruby
+// annotations (pronunciation guides) over the base text
+const SKIPPED_ELEMENTS = new Set([
+  "head",
+  "rp",
+  "rt",
+  "script",
+  "style",
+  "template",
+]);
+
+// Non-prose elements the reader can offer to skip
+const SKIPPABLE_ELEMENTS: Record<string, SkippableBlock["kind"]> = {
+  table: "table",
+  aside: "aside",
+};
+
+// Landmark types that mark the start of the main text
+const BODY_LANDMARKS = new Set(["bodymatter", "text", "start"]);
+
+// Landmark types of pages that come before the main text
+const FRONT_LANDMARKS = new Set([
+  "cover",
+  "titlepage",
+  "title-page",
+  "copyright-page",
+  "toc",
+  "halftitlepage",
+]);
+
+// Landmark types that, after the start of the main text, begin the back matter
+const BACK_LANDMARKS = new Set([
+  "backmatter",
+  "index",
+  "glossary",
+  "bibliography",
+  "colophon",
+  "copyright-page",
+  "acknowledgements",
+  "acknowledgments",
+  "toc",
+  "loi",
+  "lot",
+]);
+
+// Font obfuscation algorithms: fonts are scrambled, but the text is readable
+const FONT_OBFUSCATION_ALGORITHMS = new Set([
+  "http://www.idpf.org/2008/embedding",
+  "http://ns.adobe.com/pdf/enc#RC",
+]);
+
+// Image types that can be shown by the reader
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+};
+
 /**
  * Parse EPUB file and extract text content with chapters
+ * The text is normalized for the given language, or else the one the
+ * package declares, or else the detected one
  */
-export async function parseEPUB(filePath: string): Promise<EPUBContent> {
+export async function parseEPUB(
+  filePath: string,
+  language?: string,
+): Promise<EPUBContent> {
   try {
     // Read the EPUB file as base64
     const fileContent = await FileSystem.readAsStringAsync(filePath, {
@@ -40,67 +275,268 @@ export async function parseEPUB(filePath: string): Promise<EPUBContent> {
     // Load the ZIP
     const zip = await JSZip.loadAsync(fileContent, { base64: true });
 
+    // Encrypted books can't be read
+    await checkEncryption(zip);
+
     // Find and parse container.xml to get the OPF path
-    const containerXml = await zip
-      .file("META-INF/container.xml")
-      ?.async("string");
+    const containerXml = await readZipText(zip, "META-INF/container.xml");
     if (!containerXml) {
       throw new Error("Invalid EPUB: Missing container.xml");
     }
 
-    const opfPath = extractOpfPath(containerXml);
-    const opfDir = opfPath.substring(0, opfPath.lastIndexOf("/") + 1);
+    const opfPath = extractOpfPath(parseXML(containerXml));
 
     // Parse the OPF file
-    const opfContent = await zip.file(opfPath)?.async("string");
+    const opfContent = await readZipText(zip, opfPath);
     if (!opfContent) {
       throw new Error("Invalid EPUB: Missing OPF file");
     }
+    const opf = getChild(parseXML(opfContent), "package");
+    if (!opf) {
+      throw new Error("Invalid EPUB: Missing package element in OPF file");
+    }
 
     // Extract metadata
-    const metadata = extractMetadata(opfContent);
+    const metadata = extractMetadata(opf);
+    const details = extractDetails(opf);
+
+    // Extract manifest to map IDs to resolved paths
+    const manifest = extractManifest(opf, opfPath);
 
     // Extract spine items (reading order)
-    const spineItems = extractSpine(opfContent);
+    const spineItems = extractSpine(opf, manifest);
 
-    // Extract manifest to map IDs to hrefs
-    const manifest = extractManifest(opfContent);
+    // Try to extract the TOC and landmarks, and the element IDs they point at
+    // in each file
+    const navigation = await readNavigation(zip, opf, manifest);
+    const toc = extractTOC(navigation);
+    const landmarks = extractLandmarks(navigation, opf, opfPath);
+    const pageList = extractPageList(navigation);
+    const targets = collectTargets(toc, [...landmarks, ...pageList]);
 
-    // Try to extract TOC for chapter titles
-    const tocTitles = await extractTOCTitles(zip, opfDir, opfContent);
+    // Images become tokens in the word stream; the cover is not repeated
+    const coverPath = extractCoverPath(opf, manifest);
+    const imageNames = new Map<string, string>(); // Source -> file name
 
-    // Read each chapter in spine order, tracking word positions
-    let allWords: string[] = [];
-    const chapters: EPUBChapter[] = [];
+    const addImage = (documentPath: string, src: string): string | null => {
+      let source = src.trim();
+      let extension: string | undefined;
 
-    for (const spineItem of spineItems) {
-      const href = manifest[spineItem.id];
-      if (!href) continue;
+      if (source.startsWith("data:")) {
+        const mediaType = source.slice(5).split(/[;,]/)[0].toLowerCase();
+        extension = IMAGE_EXTENSIONS[mediaType];
+        if (!extension || !source.includes(";base64,")) return null;
+      } else {
+        // Remote images can't be shown offline
+        if (/^[a-z][a-z0-9+.-]*:/i.test(source)) return null;
+        source = resolveHref(documentPath, source);
+        if (source === coverPath || !findZipFile(zip, source)) return null;
+        extension = (
+          source.match(/\.([a-z0-9]+)$/i)?.[1] || "img"
+        ).toLowerCase();
+      }
 
-      const chapterPath = opfDir + href;
-      const chapterContent = await zip.file(chapterPath)?.async("string");
+      let name = imageNames.get(source);
+      if (!name) {
+        name = `image-${imageNames.size + 1}.${extension}`;
+        imageNames.set(source, name);
+      }
+      return createImageToken(name);
+    };
 
+    // Parse every document up front, so footnotes and endnotes can be told
+    // apart from the main text wherever they are
+    const documents: (NoteDocument & { linear: boolean })[] = [];
+    for (const spineItem of spineItems) {
+      const chapterContent = await readZipText(zip, spineItem.href);
       if (chapterContent) {
-        // Get chapter title from TOC or generate from href
-        const chapterTitle = tocTitles[href] || generateChapterTitle(href, chapters.length + 1);
-        
-        // Strip HTML and extract text
-        const chapterText = stripHtmlTags(chapterContent);
-        const normalizedText = normalizeText(chapterText);
-        const chapterWords = tokenizeWords(normalizedText);
-        
-        // Only add chapter if it has meaningful content
-        if (chapterWords.length > 10) {
-          chapters.push({
-            title: chapterTitle,
-            startIndex: allWords.length,
+        documents.push({
+          path: spineItem.href,
+          root: parseXML(chapterContent),
+          linear: spineItem.linear,
+        });
+      }
+    }
+
+    // Non-linear items (pop-up notes, covers) are not read in order, unless
+    // the spine marks everything that way
+    const readAll = documents.every((document) => !document.linear);
+
+    const textLanguage =
+      language ||
+      details.language ||
+      detectDocumentLanguage(
+        documents
+          .filter((document) => document.linear || readAll)
+          .map((document) =>
+            getTextContent(getChild(getChild(document.root, "html"), "body")),
+          ),
+      );
+
+    const noteLinks = findNoteLinks(documents, (documentPath, href) => {
+      const fragment = hrefFragment(href);
+      return fragment ? `${resolveHref(documentPath, href)}#${fragment}` : null;
+    });
+    const noteBodies = new Map<string, string>();
+    for (const document of documents) {
+      collectNoteBodies(
+        document.root,
+        document.path,
+        noteLinks.targets,
+        noteBodies,
+      );
+    }
+
+    // Read each document in spine order, tracking word positions of the
+    // documents and of every TOC target inside them
+    const allWords: WordToken[] = [];
+    const positions = new Map<string, number>();
+    const documentChapters: Chapter[] = [];
+    const documentStarts: [string, number][] = []; // Kept documents
+    const notes: BookNote[] = [];
+    const pages: PageAnchor[] = [];
+    const skippableBlocks: SkippableBlock[] = [];
+    const stylesheets = new Map<string, HiddenSelector[]>(); // Path -> rules
+
+    for (const document of documents) {
+      if (!document.linear && !readAll) continue;
+
+      // Extract the text of the XHTML body, split at TOC targets
+      let imageCount = 0;
+      const references: { target: string; label: string }[] = [];
+      const segments = extractSegments(
+        document.root,
+        targets.get(document.path) || new Set(),
+        {
+          documentPath: document.path,
+          noteLinks,
+          hiddenSelectors: await readHiddenSelectors(
+            zip,
+            document,
+            stylesheets,
+          ),
+          onImage: (src) => {
+            const token = addImage(document.path, src);
+            if (token) imageCount++;
+            return token;
+          },
+          onNoteReference: (target, label) => {
+            const marker = createNoteMarker(references.length);
+            if (marker) references.push({ target, label });
+            return marker;
+          },
+        },
+      );
+
+      const documentStart = allWords.length;
+      const chapterWords: WordToken[] = [];
+      const anchorOffsets: [string, number][] = [];
+      const noteOffsets: [number, number][] = []; // Reference -> word offset
+      const pageOffsets: [string, number][] = [];
+      const blockOffsets: SkippableBlock[] = [];
+      let openBlock: SkippableBlock | null = null;
+      segments.forEach((segment, segmentIndex) => {
+        for (const anchor of segment.anchors) {
+          anchorOffsets.push([anchor, chapterWords.length]);
+        }
+        for (const label of segment.pages) {
+          pageOffsets.push([label, chapterWords.length]);
+        }
+        if (segment.blockEnd && openBlock) {
+          openBlock.endIndex = chapterWords.length;
+          if (openBlock.endIndex > openBlock.startIndex) {
+            blockOffsets.push(openBlock);
+          }
+          openBlock = null;
+        }
+        if (segment.blockStart) {
+          openBlock = {
+            kind: segment.blockStart,
+            startIndex: chapterWords.length,
+            endIndex: chapterWords.length,
+          };
+        }
+
+        // Segments split at a page break or anchor may share a paragraph
+        const previous = segments[segmentIndex - 1];
+        const gap =
+          (previous?.text.match(/\s*$/)?.[0] || "") +
+          (segment.text.match(/^\s*/)?.[0] || "");
+        const continuesParagraph =
+          previous !== undefined && !/\n[^\S\n]*\n/.test(gap);
+
+        const normalizedText = normalizeText(segment.text, {
+          language: textLanguage,
+        });
+        for (const token of tokenizeWords(
+          normalizedText,
+          continuesParagraph,
+          textLanguage,
+        )) {
+          // A reference belongs to the word it follows
+          const { word, indexes } = takeNoteMarkers(token.text);
+          if (word) chapterWords.push({ ...token, text: word });
+          for (const index of indexes) {
+            noteOffsets.push([index, Math.max(0, chapterWords.length - 1)]);
+          }
+        }
+      });
+
+      // Only keep documents with meaningful content; targets inside
+      // skipped documents point at the next one
+      const kept = chapterWords.length - imageCount > 10 || imageCount > 0;
+      positions.set(document.path, documentStart);
+      for (const [anchor, offset] of anchorOffsets) {
+        positions.set(
+          `${document.path}#${anchor}`,
+          documentStart + (kept ? offset : 0),
+        );
+      }
+      for (const [label, offset] of pageOffsets) {
+        pages.push({ label, startIndex: documentStart + (kept ? offset : 0) });
+      }
+
+      if (kept) {
+        documentStarts.push([document.path, documentStart]);
+        documentChapters.push({
+          title: generateChapterTitle(
+            document.path,
+            documentChapters.length + 1,
+          ),
+          startIndex: documentStart,
+        });
+
+        // Attach notes to the words their references follow
+        for (const [index, offset] of noteOffsets) {
+          const reference = references[index];
+          const text = reference && noteBodies.get(reference.target);
+          if (text) {
+            notes.push({
+              wordIndex: documentStart + offset,
+              label: reference.label,
+              text,
+            });
+          }
+        }
+
+        for (const block of blockOffsets) {
+          skippableBlocks.push({
+            kind: block.kind,
+            startIndex: documentStart + block.startIndex,
+            endIndex: documentStart + block.endIndex,
           });
-          
-          allWords = allWords.concat(chapterWords);
         }
+
+        appendWords(allWords, chapterWords);
       }
     }
 
+    // Use the TOC tree, or one chapter per document when there is none
+    let chapters = buildChapterTree(toc, positions, allWords.length);
+    if (chapters.length === 0) {
+      chapters = documentChapters;
+    }
+
     // If no chapters found, create a single "Start" chapter
     if (chapters.length === 0 && allWords.length > 0) {
       chapters.push({
@@ -109,72 +545,444 @@ export async function parseEPUB(filePath: string): Promise<EPUBContent> {
       });
     }
 
+    // Suggest where to start reading and where the main text ends
+    const { startWord, mainTextEnd } = findMainText(
+      landmarks,
+      documentStarts,
+      positions,
+      allWords.length,
+    );
+
+    // Print page numbers: the page list, or the pagebreak markers in the text
+    const listedPages = buildPageAnchors(pageList, positions, allWords.length);
+
+    const images = await readImages(zip, imageNames);
+    const cover = coverPath ? await readCover(zip, coverPath) : undefined;
+
     return {
       metadata,
-      text: allWords.join(" "),
+      details,
+      language: textLanguage,
+      cover,
+      text: allWords.map((token) => token.text).join(" "),
       words: allWords,
       chapters,
+      images,
+      notes,
+      pages: listedPages.length > 0 ? listedPages : pages,
+      skippableBlocks,
+      startWord,
+      mainTextEnd,
     };
   } catch (error) {
     console.error("Error parsing EPUB:", error);
+    if (error instanceof DRMError) throw error;
     throw new Error(`Failed to parse EPUB: ${error}`);
   }
 }
 
+/**
+ * Throw a DRMError if META-INF/encryption.xml encrypts anything beyond font
+ * obfuscation, naming the DRM scheme when it can be recognised
+ */
+async function checkEncryption(zip: JSZip): Promise<void> {
+  const encryptionXml = await readZipText(zip, "META-INF/encryption.xml");
+  if (!encryptionXml) return;
+
+  const encryption = parseXML(encryptionXml);
+  const encrypted = findElements(encryption, "EncryptedData").some(
+    (data) =>
+      !FONT_OBFUSCATION_ALGORITHMS.has(
+        getAttribute(getChild(data, "EncryptionMethod"), "Algorithm") || "",
+      ),
+  );
+  if (!encrypted) return;
+
+  // Work out which scheme protects the book
+  const rightsXml = await readZipText(zip, "META-INF/rights.xml");
+  const retrieval = findElements(encryption, "RetrievalMethod")
+    .map((method) => getAttribute(method, "URI") || "")
+    .join(" ");
+
+  let scheme: string | undefined;
+  if (findZipFile(zip, "META-INF/license.lcpl") || retrieval.includes("lcpl")) {
+    scheme = "Readium LCP";
+  } else if (rightsXml && rightsXml.includes("ns.adobe.com/adept")) {
+    scheme = "Adobe DRM";
+  } else if (findZipFile(zip, "META-INF/sinf.xml")) {
+    scheme = "Apple FairPlay";
+  }
+
+  throw new DRMError(
+    `This book is protected by ${scheme || "DRM"} and can't be imported. ` +
+      "Only DRM-free EPUB files are supported; many stores offer a DRM-free download.",
+    scheme,
+  );
+}
+
+/**
+ * Read a text file from the ZIP, tolerating differences in case
+ */
+async function readZipText(zip: JSZip, path: string): Promise<string | null> {
+  const file = findZipFile(zip, path);
+  if (!file) return null;
+  return file.async("string");
+}
+
+/**
+ * Find a file in the ZIP, tolerating differences in case
+ */
+function findZipFile(zip: JSZip, path: string): JSZip.JSZipObject | null {
+  const lower = path.toLowerCase();
+  return (
+    zip.file(path) ||
+    Object.values(zip.files).find(
+      (entry) => !entry.dir && entry.name.toLowerCase() === lower,
+    ) ||
+    null
+  );
+}
+
+/**
+ * Collect the hiding rules of a document's stylesheets and <style> elements
+ * Linked stylesheets are parsed once and shared between documents
+ */
+async function readHiddenSelectors(
+  zip: JSZip,
+  document: NoteDocument,
+  stylesheets: Map<string, HiddenSelector[]>,
+): Promise<HiddenSelector[]> {
+  const selectors: HiddenSelector[] = [];
+
+  for (const link of findElements(document.root, "link")) {
+    const rel = (getAttribute(link, "rel") || "").toLowerCase();
+    const href = getAttribute(link, "href");
+    if (!href || !rel.split(/\s+/).includes("stylesheet")) continue;
+
+    const path = resolveHref(document.path, href);
+    let rules = stylesheets.get(path);
+    if (!rules) {
+      const css = await readZipText(zip, path);
+      rules = css ? parseHiddenSelectors(css) : [];
+      stylesheets.set(path, rules);
+    }
+    selectors.push(...rules);
+  }
+
+  for (const style of findElements(document.root, "style")) {
+    selectors.push(...parseHiddenSelectors(getTextContent(style)));
+  }
+
+  return selectors;
+}
+
+/**
+ * Read the cover image as base64
+ */
+async function readCover(
+  zip: JSZip,
+  path: string,
+): Promise<BookImage | undefined> {
+  const file = findZipFile(zip, path);
+  if (!file) return undefined;
+
+  const extension = (path.match(/\.([a-z0-9]+)$/i)?.[1] || "img").toLowerCase();
+  return { name: `cover.${extension}`, data: await file.async("base64") };
+}
+
+/**
+ * Read the images referenced from the text as base64
+ */
+async function readImages(
+  zip: JSZip,
+  imageNames: Map<string, string>,
+): Promise<BookImage[]> {
+  const images: BookImage[] = [];
+
+  for (const [source, name] of imageNames) {
+    if (source.startsWith("data:")) {
+      images.push({ name, data: source.slice(source.indexOf(",") + 1) });
+      continue;
+    }
+
+    const file = findZipFile(zip, source);
+    if (file) {
+      images.push({ name, data: await file.async("base64") });
+    }
+  }
+
+  return images;
+}
+
+/**
+ * Resolve an href against the path of the file that contains it
+ * Returns the URL-decoded path inside the ZIP, without any fragment
+ */
+function resolveHref(basePath: string, href: string): string {
+  const withoutFragment = href.split("#")[0];
+  let decoded = withoutFragment;
+  try {
+    decoded = decodeURIComponent(withoutFragment);
+  } catch {
+    // Keep malformed escapes as written
+  }
+
+  // A bare "#fragment" points into the document itself
+  if (decoded.length === 0) return basePath;
+
+  // Absolute paths start at the ZIP root
+  const parts = decoded.startsWith("/") ? [] : basePath.split("/").slice(0, -1);
+  for (const part of decoded.split("/")) {
+    if (part === "" || part === ".") continue;
+    if (part === "..") {
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts.join("/");
+}
+
+/**
+ * Get the URL-decoded fragment of an href, if it has one
+ */
+function hrefFragment(href: string): string | undefined {
+  const hash = href.indexOf("#");
+  if (hash < 0 || hash === href.length - 1) return undefined;
+
+  const fragment = href.slice(hash + 1);
+  try {
+    return decodeURIComponent(fragment);
+  } catch {
+    return fragment;
+  }
+}
+
 /**
  * Extract OPF path from container.xml
  */
-function extractOpfPath(containerXml: string): string {
-  const match = containerXml.match(/full-path="([^"]+)"/);
-  if (!match) {
+function extractOpfPath(container: XMLElement): string {
+  const rootfiles = findElements(container, "rootfile");
+  const rootfile =
+    rootfiles.find(
+      (el) =>
+        getAttribute(el, "media-type") === "application/oebps-package+xml",
+    ) || rootfiles[0];
+  const fullPath = getAttribute(rootfile, "full-path");
+
+  if (!fullPath) {
     throw new Error("Could not find OPF path in container.xml");
   }
-  return match[1];
+  return resolveHref("", fullPath);
 }
 
 /**
- * Extract metadata from OPF content
+ * Extract metadata from the OPF package
  */
-function extractMetadata(opfContent: string): EPUBMetadata {
+function extractMetadata(opf: XMLElement): EPUBMetadata {
   const metadata: EPUBMetadata = {};
+  const opfMetadata = getChild(opf, "metadata");
 
   // Extract title
-  const titleMatch = opfContent.match(
-    /<dc:title[^>]*>([^<]+)<\/dc:title>/i,
+  const title = collapseWhitespace(
+    getTextContent(getChild(opfMetadata, "title")),
   );
-  if (titleMatch) {
-    metadata.title = titleMatch[1].trim();
+  if (title) {
+    metadata.title = title;
   }
 
   // Extract author/creator
-  const authorMatch = opfContent.match(
-    /<dc:creator[^>]*>([^<]+)<\/dc:creator>/i,
+  const author = collapseWhitespace(
+    getTextContent(getChild(opfMetadata, "creator")),
   );
-  if (authorMatch) {
-    metadata.author = authorMatch[1].trim();
+  if (author) {
+    metadata.author = author;
   }
 
   return metadata;
 }
 
 /**
- * Extract spine items from OPF content
+ * Extract manifest (ID to item mapping) from the OPF package
  */
-function extractSpine(opfContent: string): EPUBSpineItem[] {
-  const items: EPUBSpineItem[] = [];
+function extractManifest(
+  opf: XMLElement,
+  opfPath: string,
+): Record<string, EPUBManifestItem> {
+  const manifest: Record<string, EPUBManifestItem> = {};
+
+  for (const item of getChildren(getChild(opf, "manifest"), "item")) {
+    const id = getAttribute(item, "id");
+    const href = getAttribute(item, "href");
+    if (!id || !href) continue;
+
+    manifest[id] = {
+      href: resolveHref(opfPath, href),
+      mediaType: getAttribute(item, "media-type") || "",
+      properties: (getAttribute(item, "properties") || "")
+        .split(/\s+/)
+        .filter((p) => p.length > 0),
+    };
+  }
+
+  return manifest;
+}
 
-  // Find all itemref elements in spine
-  const spineMatch = opfContent.match(/<spine[^>]*>([\s\S]*?)<\/spine>/i);
-  if (!spineMatch) return items;
+/**
+ * Extract language, publisher, dates, identifiers, description, subjects and
+ * series from the OPF package
+ */
+function extractDetails(opf: XMLElement): BookMetadata {
+  const details: BookMetadata = {};
+  const opfMetadata = getChild(opf, "metadata");
+  const textOf = (element: XMLElement | null | undefined) =>
+    collapseWhitespace(getTextContent(element));
+
+  const language = textOf(getChild(opfMetadata, "language"));
+  if (language) details.language = language;
 
-  const spineContent = spineMatch[1];
-  const itemrefRegex = /<itemref[^>]*idref="([^"]+)"[^>]*\/?>/gi;
+  const publisher = textOf(getChild(opfMetadata, "publisher"));
+  if (publisher) details.publisher = publisher;
+
+  // EPUB2 may list several dates; prefer the publication date
+  const dates = getChildren(opfMetadata, "date");
+  const date = textOf(
+    dates.find((el) => getAttribute(el, "event") === "publication") || dates[0],
+  );
+  if (date) details.publishedDate = date;
+
+  // The package names its unique identifier; any identifier may be the ISBN
+  const identifiers = getChildren(opfMetadata, "identifier");
+  const uniqueId = getAttribute(opf, "unique-identifier");
+  const identifier = textOf(
+    identifiers.find((el) => uniqueId && getAttribute(el, "id") === uniqueId) ||
+      identifiers[0],
+  );
+  if (identifier) details.identifier = identifier;
+
+  for (const element of identifiers) {
+    const isbn = extractISBN(
+      textOf(element),
+      getAttribute(element, "scheme") === "ISBN",
+    );
+    if (isbn) {
+      details.isbn = isbn;
+      break;
+    }
+  }
+
+  // Descriptions are often escaped HTML
+  const description = textOf(
+    parseXML(getTextContent(getChild(opfMetadata, "description"))),
+  );
+  if (description) details.description = description;
+
+  const subjects = getChildren(opfMetadata, "subject")
+    .map(textOf)
+    .filter((subject) => subject.length > 0);
+  if (subjects.length > 0) details.subjects = subjects;
+
+  // Calibre series (<meta name="calibre:series" content="...">)
+  const metas = getChildren(opfMetadata, "meta");
+  const metaContent = (name: string) =>
+    getAttribute(
+      metas.find((meta) => getAttribute(meta, "name") === name),
+      "content",
+    )?.trim();
+
+  let series = metaContent("calibre:series");
+  let seriesIndex = metaContent("calibre:series_index");
+
+  // EPUB3 collections (<meta property="belongs-to-collection">)
+  if (!series) {
+    const collection = metas.find(
+      (meta) => getAttribute(meta, "property") === "belongs-to-collection",
+    );
+    const id = getAttribute(collection, "id");
+    const refinement = (property: string) =>
+      metas.find(
+        (meta) =>
+          getAttribute(meta, "refines") === `#${id}` &&
+          getAttribute(meta, "property") === property,
+      );
+    const type = textOf(refinement("collection-type"));
+
+    if (collection && (!type || type === "series")) {
+      series = textOf(collection);
+      seriesIndex = textOf(refinement("group-position"));
+    }
+  }
+
+  if (series) {
+    details.series = series;
+    const index = parseFloat(seriesIndex || "");
+    if (!Number.isNaN(index)) details.seriesIndex = index;
+  }
+
+  return details;
+}
+
+/**
+ * Get the ISBN from an identifier like "urn:isbn:978-..." or "ISBN 0-..."
+ */
+function extractISBN(value: string, isISBNScheme: boolean): string | null {
+  const match = value.match(/^(?:urn:isbn:|isbn[:\s]*)?([\d\s-]{9,}[\dx])$/i);
+  if (!match) return null;
+  if (!isISBNScheme && !/^(urn:)?isbn/i.test(value)) {
+    // Bare numbers only count when they have the shape of an ISBN
+    const digits = match[1].replace(/[\s-]/g, "");
+    if (!/^(97[89]\d{10}|\d{9}[\dx])$/i.test(digits)) return null;
+  }
+  return match[1].replace(/[\s-]/g, "").toUpperCase();
+}
+
+/**
+ * Find the cover image, from the EPUB3 cover-image property or the EPUB2
+ * <meta name="cover"> element
+ */
+function extractCoverPath(
+  opf: XMLElement,
+  manifest: Record<string, EPUBManifestItem>,
+): string | undefined {
+  const coverItem = Object.values(manifest).find((item) =>
+    item.properties.includes("cover-image"),
+  );
+  if (coverItem) return coverItem.href;
+
+  const coverMeta = getChildren(getChild(opf, "metadata"), "meta").find(
+    (meta) => getAttribute(meta, "name") === "cover",
+  );
+  const coverId = getAttribute(coverMeta, "content");
+  if (!coverId) return undefined;
+
+  // Some books name the image path instead of its manifest ID
+  const item =
+    manifest[coverId] ||
+    Object.values(manifest).find(
+      (entry) =>
+        entry.mediaType.startsWith("image/") && entry.href.endsWith(coverId),
+    );
+  return item?.href;
+}
+
+/**
+ * Extract spine items (reading order) from the OPF package
+ */
+function extractSpine(
+  opf: XMLElement,
+  manifest: Record<string, EPUBManifestItem>,
+): EPUBSpineItem[] {
+  const items: EPUBSpineItem[] = [];
+
+  for (const itemref of getChildren(getChild(opf, "spine"), "itemref")) {
+    const id = getAttribute(itemref, "idref");
+    const item = id ? manifest[id] : undefined;
+    if (!id || !item) continue;
 
-  let match;
-  while ((match = itemrefRegex.exec(spineContent)) !== null) {
     items.push({
-      id: match[1],
-      href: "", // Will be filled from manifest
+      id,
+      href: item.href,
+      linear: getAttribute(itemref, "linear") !== "no",
     });
   }
 
@@ -182,95 +990,504 @@ function extractSpine(opfContent: string): EPUBSpineItem[] {
 }
 
 /**
- * Extract manifest (ID to href mapping) from OPF content
+ * Read and parse the EPUB3 NAV document and the EPUB2 NCX, which hold the
+ * table of contents, landmarks and page list
  */
-function extractManifest(opfContent: string): Record<string, string> {
-  const manifest: Record<string, string> = {};
+async function readNavigation(
+  zip: JSZip,
+  opf: XMLElement,
+  manifest: Record<string, EPUBManifestItem>,
+): Promise<Navigation> {
+  const items = Object.values(manifest);
+  const read = async (
+    item: EPUBManifestItem | undefined,
+  ): Promise<NavigationDocument | null> => {
+    const content = item ? await readZipText(zip, item.href) : null;
+    return item && content
+      ? { path: item.href, root: parseXML(content) }
+      : null;
+  };
 
-  // Find all item elements in manifest
-  const manifestMatch = opfContent.match(
-    /<manifest[^>]*>([\s\S]*?)<\/manifest>/i,
-  );
-  if (!manifestMatch) return manifest;
+  // The NCX is named by the spine's toc attribute, or found by media type
+  const tocId = getAttribute(getChild(opf, "spine"), "toc");
+  const ncxItem =
+    (tocId ? manifest[tocId] : undefined) ||
+    items.find((item) => item.mediaType === "application/x-dtbncx+xml");
 
-  const manifestContent = manifestMatch[1];
-  const itemRegex =
-    /<item[^>]*id="([^"]+)"[^>]*href="([^"]+)"[^>]*\/?>/gi;
+  return {
+    nav: await read(items.find((item) => item.properties.includes("nav"))),
+    ncx: await read(ncxItem),
+  };
+}
 
-  let match;
-  while ((match = itemRegex.exec(manifestContent)) !== null) {
-    manifest[match[1]] = match[2];
+/**
+ * Find a nav element of the NAV document by its epub:type
+ */
+function findNav(
+  nav: NavigationDocument | null,
+  type: string,
+): XMLElement | undefined {
+  return findElements(nav?.root, "nav").find((element) =>
+    (getAttribute(element, "type") || "").split(/\s+/).includes(type),
+  );
+}
+
+/**
+ * Extract the table of contents tree, preferring the EPUB3 NAV document over
+ * the NCX
+ */
+function extractTOC({ nav, ncx }: Navigation): TOCEntry[] {
+  if (nav) {
+    const entries = readNavList(getChild(findNav(nav, "toc"), "ol"), nav.path);
+    if (entries.length > 0) return entries;
   }
 
-  // Also try alternate attribute order
-  const itemRegex2 =
-    /<item[^>]*href="([^"]+)"[^>]*id="([^"]+)"[^>]*\/?>/gi;
-  while ((match = itemRegex2.exec(manifestContent)) !== null) {
-    manifest[match[2]] = match[1];
+  if (ncx) {
+    return readNavPoints(findElements(ncx.root, "navMap")[0], ncx.path);
   }
 
-  return manifest;
+  return [];
 }
 
 /**
- * Extract chapter titles from TOC (NCX or NAV)
+ * Extract the EPUB3 landmarks nav, falling back to the EPUB2 guide
  */
-async function extractTOCTitles(
-  zip: JSZip,
-  opfDir: string,
-  opfContent: string,
-): Promise<Record<string, string>> {
-  const titles: Record<string, string> = {};
-
-  // Try to find NCX file reference
-  const ncxMatch = opfContent.match(
-    /<item[^>]*href="([^"]+)"[^>]*media-type="application\/x-dtbncx\+xml"[^>]*\/?>/i,
-  );
+function extractLandmarks(
+  { nav }: Navigation,
+  opf: XMLElement,
+  opfPath: string,
+): Landmark[] {
+  const landmarks: Landmark[] = [];
+  const add = (type: string | undefined, basePath: string, href: string) => {
+    for (const value of (type || "").toLowerCase().split(/\s+/)) {
+      if (value.length === 0) continue;
+      landmarks.push({
+        type: value,
+        path: resolveHref(basePath, href),
+        fragment: hrefFragment(href),
+      });
+    }
+  };
 
-  if (ncxMatch) {
-    const ncxPath = opfDir + ncxMatch[1];
-    const ncxContent = await zip.file(ncxPath)?.async("string");
-
-    if (ncxContent) {
-      // Parse NCX navPoints
-      const navPointRegex =
-        /<navPoint[^>]*>[\s\S]*?<text>([^<]+)<\/text>[\s\S]*?<content[^>]*src="([^"#]+)/gi;
-      let match;
-      while ((match = navPointRegex.exec(ncxContent)) !== null) {
-        const title = match[1].trim();
-        const src = match[2];
-        titles[src] = title;
-      }
+  // EPUB3 NAV document
+  if (nav) {
+    for (const anchor of findElements(findNav(nav, "landmarks"), "a")) {
+      const href = getAttribute(anchor, "href");
+      if (href) add(getAttribute(anchor, "type"), nav.path, href);
     }
   }
 
-  // Also try EPUB3 NAV document
-  const navMatch = opfContent.match(
-    /<item[^>]*properties="nav"[^>]*href="([^"]+)"[^>]*\/?>/i,
-  );
+  // EPUB2 guide
+  if (landmarks.length === 0) {
+    for (const reference of getChildren(getChild(opf, "guide"), "reference")) {
+      const href = getAttribute(reference, "href");
+      if (href) add(getAttribute(reference, "type"), opfPath, href);
+    }
+  }
+
+  return landmarks;
+}
+
+/**
+ * Extract the print pages of the EPUB3 page-list nav, falling back to the
+ * NCX pageList
+ */
+function extractPageList({ nav, ncx }: Navigation): PageTarget[] {
+  const pages: PageTarget[] = [];
+  const add = (label: string, basePath: string, href: string) => {
+    if (label.length === 0) return;
+    pages.push({
+      label,
+      path: resolveHref(basePath, href),
+      fragment: hrefFragment(href),
+    });
+  };
 
-  if (navMatch) {
-    const navPath = opfDir + navMatch[1];
-    const navContent = await zip.file(navPath)?.async("string");
+  // EPUB3 NAV document
+  if (nav) {
+    for (const anchor of findElements(findNav(nav, "page-list"), "a")) {
+      const href = getAttribute(anchor, "href");
+      if (href) add(collapseWhitespace(getTextContent(anchor)), nav.path, href);
+    }
+    if (pages.length > 0) return pages;
+  }
 
-    if (navContent) {
-      // Parse NAV anchor tags within toc nav
-      const tocMatch = navContent.match(
-        /<nav[^>]*epub:type="toc"[^>]*>([\s\S]*?)<\/nav>/i,
+  // EPUB2 NCX
+  if (ncx) {
+    for (const pageTarget of findElements(ncx.root, "pageTarget")) {
+      const label = collapseWhitespace(
+        getTextContent(getChild(getChild(pageTarget, "navLabel"), "text")),
       );
-      if (tocMatch) {
-        const anchorRegex = /<a[^>]*href="([^"#]+)[^"]*"[^>]*>([^<]+)<\/a>/gi;
-        let match;
-        while ((match = anchorRegex.exec(tocMatch[1])) !== null) {
-          const src = match[1];
-          const title = match[2].trim();
-          titles[src] = title;
-        }
-      }
+      const src = getAttribute(getChild(pageTarget, "content"), "src");
+      if (src)
+        add(label || getAttribute(pageTarget, "value") || "", ncx.path, src);
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * Find the suggested first word, skipping front matter, and the word where
+ * back matter begins
+ */
+function findMainText(
+  landmarks: Landmark[],
+  documentStarts: [string, number][],
+  positions: Map<string, number>,
+  wordCount: number,
+): { startWord?: number; mainTextEnd?: number } {
+  const positionOf = (landmark: Landmark) =>
+    (landmark.fragment !== undefined
+      ? positions.get(`${landmark.path}#${landmark.fragment}`)
+      : undefined) ?? positions.get(landmark.path);
+
+  // Prefer an explicit start of the main text
+  let start = landmarks
+    .filter((landmark) => BODY_LANDMARKS.has(landmark.type))
+    .map(positionOf)
+    .find((position) => position !== undefined);
+
+  // Otherwise skip the documents that front matter landmarks point at, as
+  // long as they open the book
+  if (start === undefined) {
+    const frontPaths = new Set(
+      landmarks
+        .filter((landmark) => FRONT_LANDMARKS.has(landmark.type))
+        .map((landmark) => landmark.path),
+    );
+    const firstBody = documentStarts.find(([path]) => !frontPaths.has(path));
+    if (frontPaths.size > 0 && firstBody && firstBody[1] < wordCount / 2) {
+      start = firstBody[1];
     }
   }
 
-  return titles;
+  const startWord = start !== undefined && start < wordCount ? start : 0;
+
+  // The earliest back matter landmark after the start ends the main text
+  const ends = landmarks
+    .filter((landmark) => BACK_LANDMARKS.has(landmark.type))
+    .map(positionOf)
+    .filter(
+      (position): position is number =>
+        position !== undefined && position > startWord && position < wordCount,
+    );
+
+  return {
+    startWord: startWord > 0 ? startWord : undefined,
+    mainTextEnd: ends.length > 0 ? Math.min(...ends) : undefined,
+  };
+}
+
+/**
+ * Read the nested navPoints of an NCX navMap or navPoint
+ */
+function readNavPoints(parent: XMLElement | null, ncxPath: string): TOCEntry[] {
+  const entries: TOCEntry[] = [];
+
+  for (const navPoint of getChildren(parent, "navPoint")) {
+    const title = collapseWhitespace(
+      getTextContent(getChild(getChild(navPoint, "navLabel"), "text")),
+    );
+    const src = getAttribute(getChild(navPoint, "content"), "src");
+    const children = readNavPoints(navPoint, ncxPath);
+
+    if (title && src) {
+      entries.push({
+        title,
+        path: resolveHref(ncxPath, src),
+        fragment: hrefFragment(src),
+        children,
+      });
+    } else {
+      // Keep the children of entries that can't be used themselves
+      entries.push(...children);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Read the nested <ol> list of an EPUB3 toc nav
+ */
+function readNavList(list: XMLElement | null, navPath: string): TOCEntry[] {
+  const entries: TOCEntry[] = [];
+
+  for (const item of getChildren(list, "li")) {
+    const anchor = getChild(item, "a");
+    const title = collapseWhitespace(
+      getTextContent(anchor || getChild(item, "span")),
+    );
+    const href = getAttribute(anchor, "href");
+    const children = readNavList(getChild(item, "ol"), navPath);
+
+    if (title && href) {
+      entries.push({
+        title,
+        path: resolveHref(navPath, href),
+        fragment: hrefFragment(href),
+        children,
+      });
+    } else {
+      // Headings without a link (<span>) only group their children
+      entries.push(...children);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Collect the element IDs each document must report positions for
+ */
+function collectTargets(
+  entries: TOCEntry[],
+  links: (Landmark | PageTarget)[], // Landmarks and print pages
+): Map<string, Set<string>> {
+  const targets = new Map<string, Set<string>>();
+
+  const add = (path: string, fragment: string | undefined) => {
+    if (!fragment) return;
+    const ids = targets.get(path) || new Set<string>();
+    ids.add(fragment);
+    targets.set(path, ids);
+  };
+
+  const walk = (list: TOCEntry[]) => {
+    for (const entry of list) {
+      add(entry.path, entry.fragment);
+      walk(entry.children);
+    }
+  };
+
+  walk(entries);
+  links.forEach((link) => add(link.path, link.fragment));
+  return targets;
+}
+
+/**
+ * Turn TOC entries into chapters at the word positions of their targets
+ * Entries whose target isn't in the text are replaced by their children
+ */
+function buildChapterTree(
+  entries: TOCEntry[],
+  positions: Map<string, number>,
+  wordCount: number,
+): Chapter[] {
+  const chapters: Chapter[] = [];
+
+  for (const entry of entries) {
+    const children = buildChapterTree(entry.children, positions, wordCount);
+    const startIndex =
+      (entry.fragment !== undefined
+        ? positions.get(`${entry.path}#${entry.fragment}`)
+        : undefined) ?? positions.get(entry.path);
+
+    if (startIndex === undefined || startIndex >= wordCount) {
+      chapters.push(...children);
+      continue;
+    }
+
+    const chapter: Chapter = { title: entry.title, startIndex };
+    if (children.length > 0) chapter.children = children;
+    chapters.push(chapter);
+  }
+
+  return chapters;
+}
+
+/**
+ * Turn page-list entries into page anchors at the word positions of their
+ * targets, in reading order
+ */
+function buildPageAnchors(
+  pageList: PageTarget[],
+  positions: Map<string, number>,
+  wordCount: number,
+): PageAnchor[] {
+  const pages: PageAnchor[] = [];
+
+  for (const page of pageList) {
+    const startIndex =
+      (page.fragment !== undefined
+        ? positions.get(`${page.path}#${page.fragment}`)
+        : undefined) ?? positions.get(page.path);
+
+    // Skip pages outside the text and entries listed out of order
+    const previous = pages[pages.length - 1];
+    if (startIndex === undefined || startIndex >= wordCount) continue;
+    if (previous && startIndex < previous.startIndex) continue;
+    pages.push({ label: page.label, startIndex });
+  }
+
+  return pages;
+}
+
+/**
+ * Extract the readable text of an XHTML document, with line breaks between
+ * block elements, starting a new segment at each targeted element ID
+ * Images are replaced by the token returned from onImage, on their own line;
+ * notes are left out and their references replaced by a marker. Hidden
+ * elements are left out apart from their anchors and page breaks, page
+ * breaks become page labels, and tables and asides are marked as skippable
+ * blocks
+ */
+function extractSegments(
+  document: XMLElement,
+  targets: Set<string>,
+  handlers: SegmentHandlers,
+): TextSegment[] {
+  const { documentPath, noteLinks, hiddenSelectors, onImage, onNoteReference } =
+    handlers;
+  const hasNotes = noteLinks.references.size > 0;
+  const segments: TextSegment[] = [{ anchors: [], pages: [], text: "" }];
+  let inBlock = false;
+  let inHeading = false;
+  let emphasisDepth = 0;
+
+  const append = (text: string) => {
+    segments[segments.length - 1].text += text;
+  };
+
+  // Reuse the current segment while it has no text yet; otherwise close the
+  // open heading and emphasis marks and reopen them in the new segment
+  const startSegment = (): TextSegment => {
+    const current = segments[segments.length - 1];
+    if (removeStructureMarks(current.text).trim().length === 0) return current;
+
+    current.text += EMPHASIS_END.repeat(emphasisDepth);
+    if (inHeading) current.text += `\n${HEADING_END}`;
+    const segment: TextSegment = {
+      anchors: [],
+      pages: [],
+      text:
+        (inHeading ? `${HEADING_START}\n` : "") +
+        EMPHASIS_START.repeat(emphasisDepth),
+    };
+    segments.push(segment);
+    return segment;
+  };
+
+  // Record a targeted element ID and a print page marker at the current
+  // position. Returns true for page markers, which hold the page number,
+  // not text
+  const markPosition = (node: XMLElement, name: string): boolean => {
+    // Older books target <a name="..."> instead of an id
+    const id =
+      getAttribute(node, "id") ??
+      (name === "a" ? getAttribute(node, "name") : undefined);
+    if (id !== undefined && targets.has(id)) {
+      startSegment().anchors.push(id);
+    }
+
+    if (!isPageBreak(node)) return false;
+    const label = collapseWhitespace(
+      getAttribute(node, "title") ||
+        getAttribute(node, "aria-label") ||
+        getTextContent(node),
+    );
+    if (label) startSegment().pages.push(label);
+    return true;
+  };
+
+  // Hidden content is left out, but its anchors and page markers still
+  // point at where it sits
+  const walkHidden = (node: XMLNode) => {
+    if (node.type === "text") return;
+    if (!markPosition(node, localName(node.name))) {
+      node.children.forEach(walkHidden);
+    }
+  };
+
+  const walk = (node: XMLNode) => {
+    if (node.type === "text") {
+      append(node.text);
+      return;
+    }
+
+    const name = localName(node.name);
+    if (SKIPPED_ELEMENTS.has(name)) return;
+    if (markPosition(node, name)) return;
+    if (isHiddenElement(node, hiddenSelectors)) {
+      node.children.forEach(walkHidden);
+      return;
+    }
+
+    // Footnotes and endnotes are stored apart from the main text
+    if (
+      isNoteElement(node) ||
+      (hasNotes && getNoteTarget(node, documentPath, noteLinks.targets))
+    ) {
+      return;
+    }
+    const noteTarget = noteLinks.references.get(node);
+    if (noteTarget) {
+      append(onNoteReference(noteTarget, getNoteLabel(node)));
+      return;
+    }
+
+    // <img src> and SVG <image xlink:href>
+    if (name === "img" || name === "image") {
+      const src = getAttribute(node, name === "img" ? "src" : "href");
+      const token = src ? onImage(src) : null;
+      if (token) append(`\n${token}\n`);
+      return;
+    }
+
+    // Tables and sidebars are read, but can be skipped as a whole
+    const skippable = !inBlock ? SKIPPABLE_ELEMENTS[name] : undefined;
+    if (skippable) {
+      startSegment().blockStart = skippable;
+      inBlock = true;
+    }
+
+    // Headings and emphasis are marked for the tokenizer
+    if (HEADING_ELEMENTS.has(name) && !inHeading) {
+      append(`\n\n${HEADING_START}\n`);
+      inHeading = true;
+      node.children.forEach(walk);
+      inHeading = false;
+      append(`\n${HEADING_END}\n\n`);
+    } else if (EMPHASIS_ELEMENTS.has(name)) {
+      append(EMPHASIS_START);
+      emphasisDepth++;
+      node.children.forEach(walk);
+      emphasisDepth--;
+      append(EMPHASIS_END);
+    } else {
+      const isBlock = BLOCK_ELEMENTS.has(name);
+      if (isBlock) append("\n");
+      node.children.forEach(walk);
+      if (isBlock) append("\n");
+    }
+
+    if (skippable) {
+      const segment = startSegment();
+      // A block without text is dropped rather than closed
+      if (segment.blockStart) delete segment.blockStart;
+      else segment.blockEnd = true;
+      inBlock = false;
+    }
+  };
+
+  walk(document);
+  return segments;
+}
+
+/**
+ * Check whether an element marks the start of a print page
+ */
+function isPageBreak(element: XMLElement): boolean {
+  const types = [
+    ...(getAttribute(element, "type") || "").split(/\s+/),
+    ...(getAttribute(element, "role") || "").split(/\s+/),
+  ];
+  return types.includes("pagebreak") || types.includes("doc-pagebreak");
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
 }
 
 /**
@@ -280,13 +1497,15 @@ function generateChapterTitle(href: string, index: number): string {
   // Try to extract meaningful name from href
   const filename = href.split("/").pop() || href;
   const name = filename.replace(/\.[^.]+$/, "").replace(/[-_]/g, " ");
-  
+
   // If name looks like a chapter reference, use it
-  if (name.toLowerCase().includes("chapter") || name.toLowerCase().includes("chap")) {
+  if (
+    name.toLowerCase().includes("chapter") ||
+    name.toLowerCase().includes("chap")
+  ) {
     return name.charAt(0).toUpperCase() + name.slice(1);
   }
-  
+
   // Otherwise use generic chapter number
   return `Chapter ${index}`;
 }
-
@@ -0,0 +1,112 @@
+// EPUB Styles Service
+// Reads the CSS rules that hide EPUB content, so hidden text is not read
+
+import { XMLElement, getAttribute, localName } from "./xml-parser";
+
+/**
+ * A simple selector that hides what it matches, e.g. "span.hidden" or "#x"
+ */
+export interface HiddenSelector {
+  tag?: string;
+  id?: string;
+  classes: string[];
+}
+
+// Declarations that take an element out of the rendered text
+const HIDING_DECLARATION =
+  /(^|;)\s*(display\s*:\s*none|visibility\s*:\s*hidden)\s*(!important\s*)?(;|$)/i;
+
+// Any other display value, which overrides a hiding stylesheet rule
+const DISPLAY_DECLARATION = /(^|;)\s*display\s*:/i;
+
+// A single compound selector: optional tag, then classes and at most one ID
+const SIMPLE_SELECTOR = /^([a-z][a-z0-9-]*)?((?:[.#][\w-]+)*)$/i;
+
+/**
+ * Collect the selectors of a stylesheet whose rules hide elements
+ * Only simple selectors are understood; rules inside @media and other
+ * at-rule blocks are ignored, as they rarely apply to the reader
+ */
+export function parseHiddenSelectors(css: string): HiddenSelector[] {
+  const selectors: HiddenSelector[] = [];
+  const source = removeAtRuleBlocks(css.replace(/\/\*[\s\S]*?\*\//g, ""));
+
+  for (const rule of source.matchAll(/([^{}]+)\{([^{}]*)\}/g)) {
+    if (!HIDING_DECLARATION.test(rule[2])) continue;
+
+    for (const text of rule[1].split(",")) {
+      const match = text.trim().match(SIMPLE_SELECTOR);
+      if (!match || !(match[1] || match[2])) continue;
+
+      const selector: HiddenSelector = { classes: [] };
+      if (match[1]) selector.tag = match[1].toLowerCase();
+      for (const part of match[2].match(/[.#][\w-]+/g) || []) {
+        if (part[0] === "#") selector.id = part.slice(1);
+        else selector.classes.push(part.slice(1));
+      }
+      selectors.push(selector);
+    }
+  }
+
+  return selectors;
+}
+
+/**
+ * Check whether an element is hidden by the hidden attribute, its inline
+ * style or one of the stylesheet selectors
+ */
+export function isHiddenElement(
+  element: XMLElement,
+  selectors: HiddenSelector[],
+): boolean {
+  if (getAttribute(element, "hidden") !== undefined) return true;
+
+  const style = getAttribute(element, "style");
+  if (style && HIDING_DECLARATION.test(style)) return true;
+  if (style && DISPLAY_DECLARATION.test(style)) return false;
+  if (selectors.length === 0) return false;
+
+  const tag = localName(element.name);
+  const id = getAttribute(element, "id");
+  const classes = (getAttribute(element, "class") || "").split(/\s+/);
+
+  return selectors.some(
+    (selector) =>
+      (!selector.tag || selector.tag === tag) &&
+      (!selector.id || selector.id === id) &&
+      selector.classes.every((name) => classes.includes(name)),
+  );
+}
+
+/**
+ * Remove @media, @supports and similar blocks, keeping top-level rules
+ */
+function removeAtRuleBlocks(css: string): string {
+  let result = "";
+  let pos = 0;
+
+  while (pos < css.length) {
+    const at = css.indexOf("@", pos);
+    if (at < 0) break;
+    result += css.slice(pos, at);
+
+    // Statements like @import end at a semicolon, blocks at their brace
+    const semicolon = css.indexOf(";", at);
+    const brace = css.indexOf("{", at);
+    if (brace < 0 || (semicolon >= 0 && semicolon < brace)) {
+      pos = semicolon < 0 ? css.length : semicolon + 1;
+      continue;
+    }
+
+    let depth = 0;
+    pos = brace;
+    while (pos < css.length) {
+      if (css[pos] === "{") depth++;
+      else if (css[pos] === "}" && --depth === 0) break;
+      pos++;
+    }
+    pos++;
+  }
+
+  return result + css.slice(pos);
+}
@@ -0,0 +1,271 @@
+// FB2 Parser Service
+// Extracts text content from FictionBook (FB2 and zipped FB2) files
+
+import * as FileSystem from "expo-file-system/legacy";
+import JSZip from "jszip";
+import { Chapter, WordToken } from "./book-storage";
+import { detectDocumentLanguage } from "./language-detector";
+import {
+  base64ToBytes,
+  decodeText,
+  decodeWindows1252,
+  encodingFromLabel,
+} from "./text-encoding";
+import {
+  EMPHASIS_END,
+  EMPHASIS_START,
+  HEADING_END,
+  HEADING_START,
+  appendWords,
+  normalizeText,
+  tokenizeWords,
+} from "./text-normalizer";
+import {
+  XMLElement,
+  getAttribute,
+  getChild,
+  getChildren,
+  getTextContent,
+  localName,
+  parseXML,
+} from "./xml-parser";
+
+interface FB2Metadata {
+  title?: string;
+  author?: string;
+}
+
+interface FB2Content {
+  metadata: FB2Metadata;
+  language?: string; // The language given, or else the detected one
+  words: WordToken[];
+  chapters: Chapter[];
+}
+
+// Elements whose text is read as a separate paragraph
+const BLOCK_ELEMENTS = new Set([
+  "p",
+  "v",
+  "subtitle",
+  "text-author",
+  "empty-line",
+  "epigraph",
+  "cite",
+  "poem",
+  "stanza",
+  "annotation",
+  "table",
+  "tr",
+  "td",
+  "th",
+]);
+
+// Bodies holding footnotes and comments rather than the story
+const SECONDARY_BODIES = new Set(["notes", "comments"]);
+
+/**
+ * Parse an FB2 or FB2.ZIP file and extract text content with chapters
+ * The text is normalized for the given language, or else the detected one
+ */
+export async function parseFB2(
+  filePath: string,
+  language?: string,
+): Promise<FB2Content> {
+  try {
+    const fileContent = await FileSystem.readAsStringAsync(filePath, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+
+    const bytes = await unpackFB2(fileContent);
+    const document = parseXML(decodeFB2(bytes));
+
+    const fictionBook = getChild(document, "fictionbook");
+    if (!fictionBook) {
+      throw new Error("Invalid FB2: Missing FictionBook element");
+    }
+
+    const metadata = extractMetadata(fictionBook);
+    const mainBodies = getChildren(fictionBook, "body").filter(
+      (body) =>
+        !SECONDARY_BODIES.has((getAttribute(body, "name") || "").toLowerCase()),
+    );
+    const textLanguage =
+      language || detectDocumentLanguage(mainBodies.map(getTextContent));
+
+    // Walk the main bodies, flushing words at every section boundary
+    const allWords: WordToken[] = [];
+    const chapters: Chapter[] = [];
+    let buffer: string[] = [];
+
+    const flush = () => {
+      const normalizedText = normalizeText(buffer.join(""), {
+        language: textLanguage,
+      });
+      appendWords(allWords, tokenizeWords(normalizedText, false, textLanguage));
+      buffer = [];
+    };
+
+    const walk = (element: XMLElement) => {
+      for (const child of element.children) {
+        if (child.type === "text") {
+          buffer.push(child.text);
+          continue;
+        }
+
+        const name = localName(child.name);
+
+        if (name === "section") {
+          // Nested sections are flattened into one chapter list
+          flush();
+          const title = extractSectionTitle(child);
+          if (title) {
+            chapters.push({ title, startIndex: allWords.length });
+          }
+          walk(child);
+          flush();
+        } else if (name === "title") {
+          buffer.push(`\n\n${HEADING_START}\n`);
+          walk(child);
+          buffer.push(`\n${HEADING_END}\n\n`);
+        } else if (name === "emphasis" || name === "strong") {
+          buffer.push(EMPHASIS_START);
+          walk(child);
+          buffer.push(EMPHASIS_END);
+        } else if (name === "image" || name === "binary") {
+          continue;
+        } else if (name === "a" && getAttribute(child, "type") === "note") {
+          // Footnote reference markers like "[1]"
+          continue;
+        } else if (BLOCK_ELEMENTS.has(name)) {
+          buffer.push("\n");
+          walk(child);
+          buffer.push("\n");
+        } else {
+          walk(child);
+        }
+      }
+    };
+
+    for (const body of mainBodies) {
+      walk(body);
+      flush();
+    }
+
+    if (allWords.length === 0) {
+      throw new Error("Invalid FB2: No readable text found");
+    }
+
+    // If no chapters found, create a single "Start" chapter
+    if (chapters.length === 0) {
+      chapters.push({
+        title: "Start",
+        startIndex: 0,
+      });
+    }
+
+    return {
+      metadata,
+      language: textLanguage,
+      words: allWords,
+      chapters,
+    };
+  } catch (error) {
+    console.error("Error parsing FB2:", error);
+    throw error;
+  }
+}
+
+/**
+ * Return the raw FB2 bytes, unpacking .fb2.zip archives
+ */
+async function unpackFB2(fileContent: string): Promise<Uint8Array> {
+  const bytes = base64ToBytes(fileContent);
+
+  // ZIP archives start with "PK\x03\x04"
+  const isZip =
+    bytes[0] === 0x50 &&
+    bytes[1] === 0x4b &&
+    bytes[2] === 0x03 &&
+    bytes[3] === 0x04;
+  if (!isZip) return bytes;
+
+  const zip = await JSZip.loadAsync(bytes);
+  const files = Object.values(zip.files).filter((file) => !file.dir);
+  const entry =
+    files.find((file) => file.name.toLowerCase().endsWith(".fb2")) || files[0];
+  if (!entry) {
+    throw new Error("Invalid FB2: The archive contains no FB2 file");
+  }
+
+  return entry.async("uint8array");
+}
+
+/**
+ * Decode FB2 bytes using the encoding from the XML declaration
+ * FB2 files are frequently Windows-1251 rather than UTF-8
+ */
+function decodeFB2(bytes: Uint8Array): string {
+  const prolog = decodeWindows1252(bytes.subarray(0, 200));
+  const declared = prolog.match(/^<\?xml[^>]*encoding\s*=\s*["']([^"']+)["']/);
+
+  // Byte order marks take precedence over the declaration
+  const hasBOM =
+    (bytes[0] === 0xef && bytes[1] === 0xbb) ||
+    (bytes[0] === 0xff && bytes[1] === 0xfe) ||
+    (bytes[0] === 0xfe && bytes[1] === 0xff);
+
+  if (declared && !hasBOM) {
+    const encoding = encodingFromLabel(declared[1]);
+    if (encoding) return decodeText(bytes, encoding);
+    console.warn("Unsupported FB2 encoding, guessing instead:", declared[1]);
+  }
+
+  return decodeText(bytes);
+}
+
+/**
+ * Extract title and authors from <description><title-info>
+ */
+function extractMetadata(fictionBook: XMLElement): FB2Metadata {
+  const titleInfo = getChild(
+    getChild(fictionBook, "description"),
+    "title-info",
+  );
+  const metadata: FB2Metadata = {};
+
+  const title = cleanText(getTextContent(getChild(titleInfo, "book-title")));
+  if (title) metadata.title = title;
+
+  const authors = getChildren(titleInfo, "author")
+    .map((author) => {
+      const name = ["first-name", "middle-name", "last-name"]
+        .map((part) => cleanText(getTextContent(getChild(author, part))))
+        .filter((part) => part.length > 0)
+        .join(" ");
+      return name || cleanText(getTextContent(getChild(author, "nickname")));
+    })
+    .filter((name) => name.length > 0);
+  if (authors.length > 0) metadata.author = authors.join(", ");
+
+  return metadata;
+}
+
+/**
+ * Get a section's title, joining its paragraphs ("Chapter 1" + "The Start")
+ */
+function extractSectionTitle(section: XMLElement): string {
+  const title = getChild(section, "title");
+  if (!title) return "";
+
+  const paragraphs = getChildren(title, "p");
+  const parts =
+    paragraphs.length > 0
+      ? paragraphs.map((p) => cleanText(getTextContent(p)))
+      : [cleanText(getTextContent(title))];
+
+  return parts.filter((part) => part.length > 0).join(" ");
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,192 @@
+// Hyphenation Service
+// Splits over-long words into display fragments at hyphenation points,
+// using Liang's algorithm with the bundled patterns of the book's language
+
+import { HYPHENATION_PATTERNS } from "./hyphenation-patterns";
+import { getPrimaryLanguage } from "./language-detector";
+import { hasUnspacedScript } from "./word-segmenter";
+
+/**
+ * The patterns of a language, ready for lookups
+ */
+interface Hyphenator {
+  leftMin: number;
+  rightMin: number;
+  patterns: Map<string, number[]>; // Letters -> value at each gap
+  maxPatternLength: number;
+  exceptions: Map<string, number[]>; // Word -> hyphen positions
+}
+
+// Characters a word can be broken after without adding a hyphen, as in
+// compounds ("well-known") and URLs
+const BREAK_AFTER_PATTERN = /[-‐–—/\\_.?&=#+:~]/;
+// Words that look like web addresses, which only break at their separators
+const URL_PATTERN = /^(?:[a-z][a-z\d+.-]*:\/\/|www\.)|^[\w-]+(?:\.[\w-]+)+\//i;
+
+const hyphenators = new Map<string, Hyphenator | null>();
+
+/**
+ * Find where a word may be hyphenated
+ * Returns the indexes of the letters a hyphen may go before; none when the
+ * language has no patterns
+ */
+export function findHyphenationPoints(
+  word: string,
+  language?: string,
+): number[] {
+  const hyphenator = getHyphenator(language);
+  const lower = word.toLowerCase();
+  if (!hyphenator || lower.length !== word.length) return [];
+
+  const { leftMin, rightMin } = hyphenator;
+  if (word.length < leftMin + rightMin) return [];
+
+  const inBounds = (point: number) =>
+    point >= leftMin && point <= word.length - rightMin;
+
+  const exception = hyphenator.exceptions.get(lower);
+  if (exception) return exception.filter(inBounds);
+
+  // Each pattern found in the word raises the values of the gaps it covers;
+  // odd values allow a hyphen. Dots mark the word edges
+  const text = `.${lower}.`;
+  const values = new Array<number>(text.length + 1).fill(0);
+  for (let i = 0; i < text.length; i++) {
+    const maxEnd = Math.min(text.length, i + hyphenator.maxPatternLength);
+    for (let end = i + 1; end <= maxEnd; end++) {
+      const pattern = hyphenator.patterns.get(text.slice(i, end));
+      if (!pattern) continue;
+      pattern.forEach((value, k) => {
+        if (value > values[i + k]) values[i + k] = value;
+      });
+    }
+  }
+
+  const points: number[] = [];
+  for (let i = 1; i < word.length; i++) {
+    if (values[i + 1] % 2 === 1 && inBounds(i)) points.push(i);
+  }
+  return points;
+}
+
+/**
+ * Split a word longer than maxLength into fragments that fit, for display
+ * Breaks go after hyphens and URL separators where possible, then at
+ * hyphenation points, where the fragment gets a trailing hyphen. Words with
+ * no usable break are cut at maxLength. URLs only break at their
+ * separators, so their fragments may run long. A maxLength of 0 never splits
+ */
+export function splitLongWord(
+  word: string,
+  maxLength: number,
+  language?: string,
+): string[] {
+  if (maxLength <= 1 || word.length <= maxLength) return [word];
+  if (hasUnspacedScript(word)) return [word];
+
+  // Break positions, and whether a hyphen is added there
+  const breaks = new Map<number, boolean>();
+  for (let i = 1; i < word.length; i++) {
+    if (
+      BREAK_AFTER_PATTERN.test(word[i - 1]) &&
+      /[\p{L}\p{N}]/u.test(word[i])
+    ) {
+      breaks.set(i, false);
+    }
+  }
+  const isUrl = URL_PATTERN.test(word);
+  if (!isUrl) {
+    for (const run of word.matchAll(/\p{L}+/gu)) {
+      for (const point of findHyphenationPoints(run[0], language)) {
+        breaks.set(run.index! + point, true);
+      }
+    }
+  }
+  const positions = Array.from(breaks.keys()).sort((a, b) => a - b);
+
+  const fragments: string[] = [];
+  let start = 0;
+  while (word.length - start > maxLength) {
+    // The furthest break that keeps the fragment, with its hyphen, in bounds
+    let end = -1;
+    let hyphen = true;
+    for (const position of positions) {
+      if (position <= start) continue;
+      const addsHyphen = breaks.get(position)!;
+      if (position - start + (addsHyphen ? 1 : 0) > maxLength) break;
+      end = position;
+      hyphen = addsHyphen;
+    }
+
+    if (end < 0 && isUrl) {
+      // The next separator, or the rest of the URL
+      end = positions.find((position) => position > start) ?? word.length;
+      hyphen = false;
+    } else if (end < 0) {
+      end = start + maxLength - 1;
+      hyphen = true;
+      // Don't cut a surrogate pair in half
+      if (/[\uD800-\uDBFF]/.test(word[end - 1])) end--;
+    }
+
+    fragments.push(word.slice(start, end) + (hyphen ? "-" : ""));
+    start = end;
+  }
+  if (start < word.length) fragments.push(word.slice(start));
+
+  return fragments;
+}
+
+/**
+ * Build the hyphenator of a language, or null when it has no patterns
+ */
+function getHyphenator(language?: string): Hyphenator | null {
+  const key = getPrimaryLanguage(language) || "";
+  const cached = hyphenators.get(key);
+  if (cached !== undefined) return cached;
+
+  const source = HYPHENATION_PATTERNS[key];
+  if (!source) {
+    hyphenators.set(key, null);
+    return null;
+  }
+
+  const hyphenator: Hyphenator = {
+    leftMin: source.leftMin,
+    rightMin: source.rightMin,
+    patterns: new Map(),
+    maxPatternLength: 0,
+    exceptions: new Map(),
+  };
+
+  // "a1b2c" -> letters "abc" with values [0, 1, 2, 0] at the gaps
+  for (const pattern of source.patterns.split(/\s+/)) {
+    if (!pattern) continue;
+    const letters = pattern.replace(/\d/g, "");
+    const values = new Array<number>(letters.length + 1).fill(0);
+    let gap = 0;
+    for (const char of pattern) {
+      if (/\d/.test(char)) values[gap] = Number(char);
+      else gap++;
+    }
+    hyphenator.patterns.set(letters, values);
+    hyphenator.maxPatternLength = Math.max(
+      hyphenator.maxPatternLength,
+      letters.length,
+    );
+  }
+
+  // "hard-ware" -> "hardware" with a hyphen before index 4
+  for (const exception of source.exceptions.split(/\s+/)) {
+    if (!exception) continue;
+    const points: number[] = [];
+    exception.split("-").reduce((length, part, i) => {
+      if (i > 0) points.push(length);
+      return length + part.length;
+    }, 0);
+    hyphenator.exceptions.set(exception.replace(/-/g, ""), points);
+  }
+
+  hyphenators.set(key, hyphenator);
+  return hyphenator;
+}
@@ -0,0 +1,29 @@
+// Import Errors Service
+// Error types raised while importing documents
+
+/**
+ * Raised when a document is protected by DRM, so its text can't be read
+ * The message explains the problem to the reader
+ */
+export class DRMError extends Error {
+  scheme?: string; // e.g. "Adobe DRM", "Readium LCP"
+
+  constructor(message: string, scheme?: string) {
+    super(message);
+    this.name = "DRMError";
+    this.scheme = scheme;
+    // Keep instanceof working when classes are compiled to ES5
+    Object.setPrototypeOf(this, DRMError.prototype);
+  }
+}
+
+/**
+ * Raised when a picked file is not in a format the app can import
+ */
+export class UnsupportedFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedFormatError";
+    Object.setPrototypeOf(this, UnsupportedFormatError.prototype);
+  }
+}
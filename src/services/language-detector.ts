@@ -0,0 +1,150 @@
+// Language Detector Service
+// Detects the language of a book's text offline, by comparing its letter
+// trigrams with bundled language profiles
+
+import { LANGUAGE_PROFILES } from "./language-profiles";
+
+/**
+ * A language the detector recognizes and the normalizer has rules for
+ */
+export interface Language {
+  code: string; // ISO 639-1 code, as stored on the book
+  name: string; // Native name, shown to the reader
+}
+
+export const SUPPORTED_LANGUAGES: Language[] = [
+  { code: "en", name: "English" },
+  { code: "pt", name: "Português" },
+  { code: "es", name: "Español" },
+];
+
+// Text with fewer distinct trigrams than this is too short to tell
+const MIN_TRIGRAMS = 100;
+// Only this many characters of the text are profiled
+const SAMPLE_LENGTH = 30000;
+// The best match must be at least this much closer than the runner-up, and
+// this close overall, or the text is in none of the languages
+const MIN_MARGIN = 0.03;
+const MAX_DISTANCE = 0.75;
+
+let profiles: Map<string, Map<string, number>> | null = null;
+
+/**
+ * Get the primary language subtag of a BCP 47 tag ("pt-BR" -> "pt")
+ */
+export function getPrimaryLanguage(tag?: string): string | undefined {
+  const primary = tag?.trim().toLowerCase().split(/[-_]/)[0];
+  return primary || undefined;
+}
+
+/**
+ * Get the name to show for a language tag
+ */
+export function getLanguageName(tag: string): string {
+  const primary = getPrimaryLanguage(tag);
+  return (
+    SUPPORTED_LANGUAGES.find((language) => language.code === primary)?.name ||
+    tag
+  );
+}
+
+/**
+ * Detect the language of a text sample
+ * Returns the code of a supported language, or undefined when the text is
+ * too short or matches none of them well
+ */
+export function detectLanguage(text: string): string | undefined {
+  const ranked = rankTrigrams(text.slice(0, SAMPLE_LENGTH));
+  if (ranked.length < MIN_TRIGRAMS) return undefined;
+
+  const distances = Array.from(getProfiles(), ([code, profile]) => ({
+    code,
+    distance: outOfPlaceDistance(ranked, profile),
+  })).sort((a, b) => a.distance - b.distance);
+
+  const [best, runnerUp] = distances;
+  if (!best || best.distance > MAX_DISTANCE) return undefined;
+  if (runnerUp && runnerUp.distance - best.distance < MIN_MARGIN) {
+    return undefined;
+  }
+  return best.code;
+}
+
+/**
+ * Detect the language of a document from its raw text parts (pages,
+ * paragraphs, files), before any of it is normalized
+ * The sample comes from the middle of the document, away from front and
+ * back matter that may be in another language
+ */
+export function detectDocumentLanguage(parts: string[]): string | undefined {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const start = Math.max(0, Math.floor((total - SAMPLE_LENGTH) / 2));
+  const end = start + SAMPLE_LENGTH;
+
+  const sample: string[] = [];
+  let offset = 0;
+  for (const part of parts) {
+    const partEnd = offset + part.length;
+    if (partEnd > start && offset < end) {
+      sample.push(part.slice(Math.max(0, start - offset), end - offset));
+    }
+    offset = partEnd;
+    if (offset >= end) break;
+  }
+  return detectLanguage(sample.join("\n"));
+}
+
+/**
+ * Load the bundled profiles as trigram -> rank maps
+ */
+function getProfiles(): Map<string, Map<string, number>> {
+  if (!profiles) {
+    profiles = new Map();
+    for (const [code, trigrams] of Object.entries(LANGUAGE_PROFILES)) {
+      profiles.set(
+        code,
+        new Map(trigrams.split("|").map((trigram, rank) => [trigram, rank])),
+      );
+    }
+  }
+  return profiles;
+}
+
+/**
+ * List the letter trigrams of a text, most frequent first
+ * Each word is padded with a space on both sides, as in the profiles
+ */
+function rankTrigrams(text: string): string[] {
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/\p{L}+/gu) || []) {
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      const trigram = padded.slice(i, i + 3);
+      counts.set(trigram, (counts.get(trigram) || 0) + 1);
+    }
+  }
+
+  return Array.from(counts)
+    .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+    .map(([trigram]) => trigram);
+}
+
+/**
+ * Compare the most frequent trigrams of a text with a language profile
+ * Each trigram costs how far its rank is from its rank in the profile, or
+ * the profile size when the profile lacks it. Returns a value from 0
+ * (same order) to 1 (nothing in common)
+ */
+function outOfPlaceDistance(
+  ranked: string[],
+  profile: Map<string, number>,
+): number {
+  const top = ranked.slice(0, profile.size);
+  let total = 0;
+  top.forEach((trigram, rank) => {
+    const profileRank = profile.get(trigram);
+    total +=
+      profileRank === undefined ? profile.size : Math.abs(profileRank - rank);
+  });
+  return total / (top.length * profile.size);
+}
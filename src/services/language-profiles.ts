@@ -0,0 +1,66 @@
+// Language Profiles Service
+// Trigram profiles of the languages the detector recognizes
+
+/**
+ * The most frequent letter trigrams of each language, most frequent first,
+ * separated by "|". Word boundaries are written as spaces
+ */
+export const LANGUAGE_PROFILES: Record<string, string> = {
+  en:
+    " th|the|he |nd | an|and|ed | to|at |re | he| of|er |hat|of |tha| be" +
+    "| wa|to | ha|ng |ere|ld | a | in| we| wi|es |ing| fo|her|ll | wh|ad " +
+    "|ent| hi| me| wo|as |en |for|in |or |th | co| mo| sh|ir |was| fr| re" +
+    "|hou|ies|ill|ked|me |om |on |oul|ts |uld| ch| i | ne| sa| yo|all|an " +
+    "|be |ear|eve|fro|had|han|him|hin|ion|is |le |ly |ne |ns |rom|rs |sto" +
+    "|ter|ut |ver|wer|whe|you| bu| ca| do| fa| ma| on| ou| se| so| st|are" +
+    "|ce |eir|et |ey |hei|im |ith|now|old|ome|one|ons|ou |our|out|own|rie" +
+    "|sho|tor|ve |wit| is| it| kn| no| qu| ro|aid|air|ate|ave|ay |ch |cha" +
+    "|com|ell|ght|hav|ht |id |it |kno|man|nin|nt |oug|rch|ren|ry |sai|se " +
+    "|thi|tio|tur|ugh|we |wil|wn |wor| ab| al| ar| as| at| ce| cl| ev| fi" +
+    "| gr| la| lo| pe| si| vi|al |alk|alt|ant|any|ard|ask|ber|car|cen|chi" +
+    "|ds |ead|een|eet|emb|eop|ers|ge |hen|hil|his|ind|ist|lt |mbe|mee|mem" +
+    "|mor|nce|nsi|nts|ntu|oke|opl|ore|ori|ork|ort|ose|oun|ove|ow |peo|pla" +
+    "|ple|por|rea|rke|rou|sed|she|som|st |tie|tow|tte|ty |ur |val|wal|wat" +
+    "|win|yth| af| ai| br| by| de| di| ea| en| ho| if| im| le| ni| ol| op" +
+    "| pa| pl| pr| sm| te| tw| va|abl|abo|ace|ach|act|ade|aft|age|ain|ame" +
+    "|ang|ank|ar |arc|arr|ati|bee|bel|ble|bod|bou|bui|but|by |cam|clo|con" +
+    "|cou|cto|day|de |ded|dow|dy |eac|em |eme|end",
+  es:
+    " de| la|as |os |de |que|ue | qu|la | y |el |es | el| ha|an |do | lo" +
+    "|las| co| en|en |lo |ra | un|con|ent|est|na |nte| a | es| se|aba|los" +
+    "|ía | ca| pa| po|hab|on |te |da | di| pr|ado|mos|por|se | al| me| pe" +
+    "| pu| su|aci|ant|ar |ara|era|tra|una| no| si| vi|ada|al |ban|bía|cam" +
+    "|dad|des|eci|ida|no |nta|or |par|pue|ran| mi| re| ve|abí|del|ero|ien" +
+    "|io |ión|le |lle|res|ría|sta|tar|to |vie|ón | an| le| mu| na| nu| pi" +
+    "| to| él|ade|ami|ana|cia|ell|ene|gun|ia |ier|ió |jo |min|nad|pre|rab" +
+    "|rec|ro |ron|sad|sto|str|sus|ta |ues|un |us |él | ce| do| er| gr| he" +
+    "| hi| ma| sa| te|ad |amo|asa|baj|ca |cho|cio|cre|die|egu|erc|hac|he " +
+    "|ho |ie |igl|ijo|int|ist|mer|nas|nde|nes|noc|nto|nue|ont|per|pie|reg" +
+    "|ros|rta|sal|sig|tod|tro|unt|ás |ían| ci| cr| du| ho| in| ju| ll| lu" +
+    "| má| tr|abr|adi|aja|ali|all|amb|blo|brí|cad|cas|cer|cha|com|deb|dec" +
+    "|der|dij|dio|don|ebe|ebl|ejo|err|esa|esd|glo|gra|ias|ica|ide|ido|iem" +
+    "|ime|imo|ina|ion|isi|ita|lla|mbi|mbr|men|mpo|más|ndo|ntr|odo|ond|one" +
+    "|ons|ort|pas|rca|re |rá |sde|si |tad|tas|ten|tes|tie|tos|uch|udi|ueb" +
+    "|uni|ura|ven| ag| ai| be| bu| ch| cu| fa| fi| fu| fá| ge| im| mo| op" +
+    "| ot| so| sé| sí| ti| tu| va| vo| ya|abi|agu|air|ard|ari|arl|aro|ará" +
+    "|aña|ba |ber|bió|bri|bro|bus|cab|car|ces|che",
+  pt:
+    "as | qu|que|ue |os | e |de |ra | de| o |do | pa| se|da | co| pe|am " +
+    "|par| as|ent| a | da|ara|se |ão |ar |nte|ou | no| um|ia |te | di| es" +
+    "| me|com|era|es |est|ma | el| na| po| pr|ade|mos|sta| ma| su|ava|con" +
+    "|ela|ida|ram|ta |tas|tra|uma| do| te|ada|ado|ant|dad|ele|em |er |inh" +
+    "|io |is |le |na |nha|nta|om |ssa|sua|to |vam| ca| fe| re|das|des|dis" +
+    "|ess|iss|lho|pes|por|rio|sse|tar| al| ao| fi| mu| nã| os| ve| vi| é " +
+    "|ami|art|ece|eir|gun|ham|ira|min|nde|no |nos|não|per|res|ria|sso|ua " +
+    "|um |ura| an| ci| en| er| fo| mo| on| sa| to| tr|ais|ass|cam|cha|dei" +
+    "|emb|emo|eu |fei|har|ho |ido|ist|ize|la |mai|men|mpo|nas|nti|nto|ond" +
+    "|ons|ont|ort|oss|pas|rta|sa |sad|uas|unt|ver| ar| at| be| ch| du| fa" +
+    "| ho| le| lo| ni| nu| ou| si| sé| ti| tu| va| vo| à |aba|alh|ao |are" +
+    "|bal|cad|cas|cer|cid|cre|cul|dep|dev|eci|ei |eia|eit|elh|erg|eri|eve" +
+    "|gué|hor|ias|ica|im |imp|ing|ita|ite|ito|iu |las|mbr|ndo|ngu|nho|nin" +
+    "|ntr|ois|or |ora|ped|pre|pro|qua|rab|ran|rav|rgu|ro |rá |ser|soa|str" +
+    "|séc|tav|tem|ter|tin|tou|tud|tór|udo|ulo|uni|uém|ve |zer|écu|ém |óri" +
+    "| ac| em| eu| fá| ha| hi| im| ja| jo| ju| já| lh| lu| op| so| ta| às" +
+    "| ág|age|aiu|al |ala|ald|ale|alg|ali|amo|and|anh|aos|ard|até|ave|bri" +
+    "|bro|ca |che|cur|dec|den|diz|dra|dur|ebe|ech",
+};
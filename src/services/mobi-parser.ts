@@ -0,0 +1,645 @@
+// MOBI Parser Service
+// Extracts text content from unencrypted MOBI / AZW3 (Kindle) files
+
+import * as FileSystem from "expo-file-system/legacy";
+import { Chapter, WordToken } from "./book-storage";
+import { DRMError } from "./import-errors";
+import { detectDocumentLanguage } from "./language-detector";
+import {
+  base64ToBytes,
+  decodeText,
+  decodeWindows1252,
+  TextEncoding,
+} from "./text-encoding";
+import {
+  appendWords,
+  htmlToText,
+  normalizeText,
+  stripHtmlTags,
+  tokenizeWords,
+} from "./text-normalizer";
+
+interface MOBIMetadata {
+  title?: string;
+  author?: string;
+}
+
+interface MOBIContent {
+  metadata: MOBIMetadata;
+  language?: string; // The language given, or else the detected one
+  words: WordToken[];
+  chapters: Chapter[];
+}
+
+/**
+ * The parts of record 0 (PalmDOC + MOBI + EXTH headers) we need
+ */
+interface MOBIHeader {
+  compression: number;
+  textLength: number;
+  textRecordCount: number;
+  encryption: number;
+  encoding: TextEncoding;
+  version: number;
+  fullName?: string;
+  huffRecord: number;
+  huffCount: number;
+  extraDataFlags: number;
+  fdstRecord: number;
+  exth: Map<number, Uint8Array[]>;
+}
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_PALMDOC = 2;
+const COMPRESSION_HUFF_CDIC = 17480;
+
+// EXTH record types
+const EXTH_AUTHOR = 100;
+const EXTH_UPDATED_TITLE = 503;
+
+const NO_RECORD = 0xffffffff;
+
+const DRM_ERROR =
+  "This book is protected by DRM and can't be imported. Only DRM-free MOBI and AZW3 files are supported.";
+
+/**
+ * Parse a MOBI / AZW3 file and extract text content with chapters
+ * The text is normalized for the given language, or else the detected one
+ */
+export async function parseMOBI(
+  filePath: string,
+  language?: string,
+): Promise<MOBIContent> {
+  try {
+    const fileContent = await FileSystem.readAsStringAsync(filePath, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    const data = base64ToBytes(fileContent);
+
+    const records = readRecordOffsets(data);
+    const record = (index: number) =>
+      data.subarray(records[index], records[index + 1] ?? data.length);
+
+    const header = readHeader(record(0));
+
+    if (header.encryption !== 0) {
+      throw new DRMError(DRM_ERROR, "Kindle DRM");
+    }
+
+    // Combined MOBI/KF8 files start with the older MOBI 6 version of the
+    // text, which uses the simpler filepos links; standalone AZW3 files are KF8
+    const text = readText(header, record);
+    const metadata = extractMetadata(header, data);
+
+    // Tag positions are byte offsets, so search a byte-for-byte decoding
+    const binary = decodeWindows1252(text);
+    const { words, chapters, textLanguage } =
+      header.version >= 8
+        ? splitChapters(
+            text,
+            header.encoding,
+            findKF8Boundaries(binary),
+            null,
+            language,
+          )
+        : splitChapters(
+            text,
+            header.encoding,
+            findPageBreaks(binary),
+            findTOCEntries(binary, text, header.encoding),
+            language,
+          );
+
+    if (words.length === 0) {
+      throw new Error("Could not extract any text from this MOBI file.");
+    }
+
+    // If no chapters found, create a single "Start" chapter
+    if (chapters.length === 0) {
+      chapters.push({
+        title: "Start",
+        startIndex: 0,
+      });
+    }
+
+    return { metadata, language: textLanguage, words, chapters };
+  } catch (error) {
+    console.error("Error parsing MOBI:", error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Headers
+// ============================================================================
+
+/**
+ * Read the PalmDB header and return the start offset of each record
+ */
+function readRecordOffsets(data: Uint8Array): number[] {
+  if (data.length < 78) {
+    throw new Error("Invalid MOBI: File is too short");
+  }
+
+  const type = decodeWindows1252(data.subarray(60, 68));
+  if (type !== "BOOKMOBI" && type !== "TEXtREAd") {
+    // Topaz and other Kindle formats share extensions with MOBI
+    throw new Error("Invalid MOBI: Unsupported Kindle file format");
+  }
+
+  const count = readUint16(data, 76);
+  const offsets: number[] = [];
+  for (let i = 0; i < count; i++) {
+    offsets.push(readUint32(data, 78 + i * 8));
+  }
+  return offsets;
+}
+
+/**
+ * Read the PalmDOC, MOBI and EXTH headers from record 0
+ */
+function readHeader(record: Uint8Array): MOBIHeader {
+  const header: MOBIHeader = {
+    compression: readUint16(record, 0),
+    textLength: readUint32(record, 4),
+    textRecordCount: readUint16(record, 8),
+    encryption: readUint16(record, 12),
+    encoding: "windows-1252",
+    version: 0,
+    huffRecord: NO_RECORD,
+    huffCount: 0,
+    extraDataFlags: 0,
+    fdstRecord: NO_RECORD,
+    exth: new Map(),
+  };
+
+  // Plain PalmDOC files stop after the first 16 bytes
+  if (decodeWindows1252(record.subarray(16, 20)) !== "MOBI") return header;
+
+  const length = readUint32(record, 20);
+  if (readUint32(record, 28) === 65001) header.encoding = "utf-8";
+  header.version = readUint32(record, 36);
+
+  const nameOffset = readUint32(record, 84);
+  const nameLength = readUint32(record, 88);
+  if (nameOffset + nameLength <= record.length) {
+    header.fullName = decodeText(
+      record.subarray(nameOffset, nameOffset + nameLength),
+      header.encoding,
+    );
+  }
+
+  header.huffRecord = readUint32(record, 112);
+  header.huffCount = readUint32(record, 116);
+
+  if (length >= 0xe4) header.extraDataFlags = readUint16(record, 0xf2);
+  if (header.version >= 8) header.fdstRecord = readUint32(record, 0xc0);
+
+  // EXTH follows the MOBI header when bit 6 of the flags is set
+  const exthFlags = readUint32(record, 128);
+  const exthStart = 16 + length;
+  if (
+    exthFlags & 0x40 &&
+    decodeWindows1252(record.subarray(exthStart, exthStart + 4)) === "EXTH"
+  ) {
+    const count = readUint32(record, exthStart + 8);
+    let pos = exthStart + 12;
+    for (let i = 0; i < count && pos + 8 <= record.length; i++) {
+      const type = readUint32(record, pos);
+      const size = readUint32(record, pos + 4);
+      if (size < 8) break;
+
+      const values = header.exth.get(type) || [];
+      values.push(record.subarray(pos + 8, pos + size));
+      header.exth.set(type, values);
+      pos += size;
+    }
+  }
+
+  return header;
+}
+
+/**
+ * Title and author from EXTH, falling back to the MOBI full name
+ */
+function extractMetadata(header: MOBIHeader, data: Uint8Array): MOBIMetadata {
+  const metadata: MOBIMetadata = {};
+  const decode = (bytes: Uint8Array) =>
+    decodeText(bytes, header.encoding).replace(/\s+/g, " ").trim();
+
+  const updatedTitle = header.exth.get(EXTH_UPDATED_TITLE)?.[0];
+  const title = updatedTitle ? decode(updatedTitle) : header.fullName?.trim();
+  if (title) {
+    metadata.title = title;
+  } else {
+    // The PalmDB name is a NUL-padded, often truncated, title
+    const name = decodeWindows1252(data.subarray(0, 32)).replace(
+      /\0[\s\S]*$/,
+      "",
+    );
+    if (name) metadata.title = name.replace(/_/g, " ").trim();
+  }
+
+  const authors = (header.exth.get(EXTH_AUTHOR) || [])
+    .map(decode)
+    .filter((author) => author.length > 0);
+  if (authors.length > 0) metadata.author = authors.join(", ");
+
+  return metadata;
+}
+
+// ============================================================================
+// Text records
+// ============================================================================
+
+/**
+ * Decompress and concatenate the text records
+ */
+function readText(
+  header: MOBIHeader,
+  record: (index: number) => Uint8Array,
+): Uint8Array {
+  let huffman: HuffmanDecoder | null = null;
+  if (header.compression === COMPRESSION_HUFF_CDIC) {
+    huffman = loadHuffman(header, record);
+  } else if (
+    header.compression !== COMPRESSION_NONE &&
+    header.compression !== COMPRESSION_PALMDOC
+  ) {
+    throw new Error(`Unsupported MOBI compression type: ${header.compression}`);
+  }
+
+  const parts: Uint8Array[] = [];
+  let total = 0;
+
+  for (let i = 1; i <= header.textRecordCount; i++) {
+    const raw = trimTrailingEntries(record(i), header.extraDataFlags);
+    const part =
+      header.compression === COMPRESSION_PALMDOC
+        ? decompressPalmDOC(raw)
+        : huffman
+          ? huffman.decode(raw)
+          : raw;
+    parts.push(part);
+    total += part.length;
+  }
+
+  const text = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    text.set(part, offset);
+    offset += part.length;
+  }
+
+  // KF8 text is split into flows (text, CSS, SVG); keep the first one
+  if (header.fdstRecord !== NO_RECORD) {
+    const fdst = record(header.fdstRecord);
+    if (decodeWindows1252(fdst.subarray(0, 4)) === "FDST") {
+      const tableOffset = readUint32(fdst, 4);
+      const end = readUint32(fdst, tableOffset + 4);
+      if (end > 0 && end <= text.length) return text.subarray(0, end);
+    }
+  }
+
+  return text.subarray(0, Math.min(text.length, header.textLength || total));
+}
+
+/**
+ * Remove the extra data some writers append to each text record
+ * Bit 0 marks multibyte character overlap; each other bit a sized entry
+ */
+function trimTrailingEntries(record: Uint8Array, flags: number): Uint8Array {
+  let end = record.length;
+
+  for (let bit = 1; bit < 16; bit++) {
+    if (!(flags & (1 << bit))) continue;
+
+    // The entry size is a backwards-encoded variable-length integer
+    let size = 0;
+    for (let i = Math.max(0, end - 4); i < end; i++) {
+      if (record[i] & 0x80) size = 0;
+      size = (size << 7) | (record[i] & 0x7f);
+    }
+    end = Math.max(0, end - size);
+  }
+
+  if (flags & 1 && end > 0) {
+    end = Math.max(0, end - ((record[end - 1] & 0x3) + 1));
+  }
+
+  return record.subarray(0, end);
+}
+
+/**
+ * Decompress PalmDOC (a simple LZ77 variant)
+ */
+function decompressPalmDOC(input: Uint8Array): Uint8Array {
+  const output: number[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const byte = input[i++];
+
+    if (byte === 0 || (byte >= 0x09 && byte <= 0x7f)) {
+      output.push(byte);
+    } else if (byte <= 0x08) {
+      // Copy the next 1-8 bytes literally
+      for (let j = 0; j < byte && i < input.length; j++) {
+        output.push(input[i++]);
+      }
+    } else if (byte <= 0xbf) {
+      // Back reference: 11 bits of distance, 3 bits of length
+      const pair = (byte << 8) | (input[i++] ?? 0);
+      const distance = (pair >> 3) & 0x7ff;
+      const length = (pair & 0x7) + 3;
+      if (distance === 0 || distance > output.length) continue;
+      const start = output.length - distance;
+      for (let j = 0; j < length; j++) {
+        output.push(output[start + j]);
+      }
+    } else {
+      // A space followed by an ASCII character
+      output.push(0x20, byte ^ 0x80);
+    }
+  }
+
+  return Uint8Array.from(output);
+}
+
+interface HuffmanDecoder {
+  decode: (data: Uint8Array) => Uint8Array;
+}
+
+/**
+ * Load the HUFF table and CDIC phrase dictionaries used by HUFF/CDIC
+ * compression
+ */
+function loadHuffman(
+  header: MOBIHeader,
+  record: (index: number) => Uint8Array,
+): HuffmanDecoder {
+  if (header.huffRecord === NO_RECORD || header.huffCount < 1) {
+    throw new Error("Invalid MOBI: Missing Huffman tables");
+  }
+
+  const huff = record(header.huffRecord);
+  if (decodeWindows1252(huff.subarray(0, 4)) !== "HUFF") {
+    throw new Error("Invalid MOBI: Corrupt Huffman table");
+  }
+
+  // Codes are compared as 32-bit left-aligned numbers; powers of two keep the
+  // arithmetic exact without 64-bit integers
+  const pow2 = (n: number) => 2 ** n;
+
+  const cacheOffset = readUint32(huff, 8);
+  const baseOffset = readUint32(huff, 12);
+
+  const cache: { codeLength: number; terminal: boolean; maxCode: number }[] =
+    [];
+  for (let i = 0; i < 256; i++) {
+    const value = readUint32(huff, cacheOffset + i * 4);
+    const codeLength = value & 0x1f;
+    cache.push({
+      codeLength,
+      terminal: (value & 0x80) !== 0,
+      maxCode: ((value >>> 8) + 1) * pow2(32 - codeLength) - 1,
+    });
+  }
+
+  const minCodes: number[] = [0];
+  const maxCodes: number[] = [pow2(32) - 1];
+  for (let length = 1; length <= 32; length++) {
+    const offset = baseOffset + (length - 1) * 8;
+    minCodes.push(readUint32(huff, offset) * pow2(32 - length));
+    maxCodes.push((readUint32(huff, offset + 4) + 1) * pow2(32 - length) - 1);
+  }
+
+  // Phrases may themselves be compressed; they are expanded on first use
+  const phrases: { data: Uint8Array; expanded: boolean }[] = [];
+  for (let i = 1; i < header.huffCount; i++) {
+    const cdic = record(header.huffRecord + i);
+    if (decodeWindows1252(cdic.subarray(0, 4)) !== "CDIC") continue;
+
+    const phraseCount = readUint32(cdic, 8);
+    const bits = readUint32(cdic, 12);
+    const count = Math.min(1 << bits, phraseCount - phrases.length);
+
+    for (let j = 0; j < count; j++) {
+      const offset = 16 + readUint16(cdic, 16 + j * 2);
+      const length = readUint16(cdic, offset);
+      phrases.push({
+        data: cdic.subarray(offset + 2, offset + 2 + (length & 0x7fff)),
+        expanded: (length & 0x8000) !== 0,
+      });
+    }
+  }
+
+  const decode = (data: Uint8Array, depth: number): Uint8Array => {
+    const parts: Uint8Array[] = [];
+    let total = 0;
+    let bitPos = 0;
+    const bitLength = data.length * 8;
+
+    while (true) {
+      const code = peekBits32(data, bitPos);
+      let { codeLength, maxCode } = cache[code >>> 24];
+      if (!cache[code >>> 24].terminal) {
+        while (codeLength < 32 && code < minCodes[codeLength]) codeLength++;
+        maxCode = maxCodes[codeLength];
+      }
+      if (codeLength === 0) break;
+
+      bitPos += codeLength;
+      if (bitPos > bitLength) break;
+
+      const index = Math.floor((maxCode - code) / pow2(32 - codeLength));
+      const phrase = phrases[index];
+      if (!phrase) break;
+
+      if (!phrase.expanded && depth < 32) {
+        phrase.data = decode(phrase.data, depth + 1);
+        phrase.expanded = true;
+      }
+      parts.push(phrase.data);
+      total += phrase.data.length;
+    }
+
+    const output = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+      output.set(part, offset);
+      offset += part.length;
+    }
+    return output;
+  };
+
+  return { decode: (data) => decode(data, 0) };
+}
+
+/**
+ * Read 32 bits starting at an arbitrary bit offset (zero-padded at the end)
+ */
+function peekBits32(data: Uint8Array, bitPos: number): number {
+  const byte = bitPos >> 3;
+  const shift = bitPos & 7;
+  const b = (i: number) => data[byte + i] ?? 0;
+
+  const high = ((b(0) << 24) | (b(1) << 16) | (b(2) << 8) | b(3)) >>> 0;
+  if (shift === 0) return high;
+  return ((high << shift) | (b(4) >> (8 - shift))) >>> 0;
+}
+
+// ============================================================================
+// Chapters
+// ============================================================================
+
+/**
+ * Offsets of <mbp:pagebreak> tags, which separate MOBI 6 chapters
+ */
+function findPageBreaks(binary: string): number[] {
+  const offsets: number[] = [];
+  const pattern = /<mbp:pagebreak\b[^>]*>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(binary)) !== null) {
+    offsets.push(match.index);
+  }
+  return offsets;
+}
+
+/**
+ * Offsets where each KF8 part (an HTML file of the original book) begins
+ */
+function findKF8Boundaries(binary: string): number[] {
+  const offsets: number[] = [];
+  const pattern = /<\?xml\b|<html\b/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(binary)) !== null) {
+    // "<?xml ... ?><html" is one boundary, not two
+    const previous = offsets[offsets.length - 1];
+    if (previous !== undefined && match.index - previous < 200) continue;
+    offsets.push(match.index);
+  }
+  return offsets;
+}
+
+/**
+ * Read the table of contents: the page the guide's "toc" reference points at,
+ * whose <a filepos=...> links give chapter titles and byte offsets
+ */
+function findTOCEntries(
+  binary: string,
+  text: Uint8Array,
+  encoding: TextEncoding,
+): Map<number, string> {
+  const entries = new Map<number, string>();
+
+  const reference = binary.match(
+    /<reference\b[^>]*type\s*=\s*["']?toc["']?[^>]*>/i,
+  );
+  const tocStart = reference
+    ? parseInt(reference[0].match(/filepos\s*=\s*["']?(\d+)/i)?.[1] || "", 10)
+    : NaN;
+  if (Number.isNaN(tocStart) || tocStart >= binary.length) return entries;
+
+  // The TOC page ends at the next page break
+  const breakPattern = /<mbp:pagebreak\b/gi;
+  breakPattern.lastIndex = tocStart + 1;
+  const nextBreak = breakPattern.exec(binary);
+  const tocEnd = nextBreak ? nextBreak.index : binary.length;
+
+  const linkPattern =
+    /<a\b[^>]*filepos\s*=\s*["']?(\d+)["']?[^>]*>([\s\S]*?)<\/a>/gi;
+  linkPattern.lastIndex = tocStart;
+  let match: RegExpExecArray | null;
+
+  while ((match = linkPattern.exec(binary)) !== null && match.index < tocEnd) {
+    const target = parseInt(match[1], 10);
+    const titleStart = match.index + match[0].indexOf(">") + 1;
+    const title = stripHtmlTags(
+      decodeText(
+        text.subarray(titleStart, titleStart + match[2].length),
+        encoding,
+      ),
+    )
+      .replace(/\s+/g, " ")
+      .trim();
+
+    if (title && target < binary.length && !entries.has(target)) {
+      entries.set(target, title);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Split the text at the given byte offsets and TOC targets, tokenizing each
+ * part and starting a chapter wherever a title is known or a heading found.
+ * The text is normalized for the given language, or else the detected one
+ */
+function splitChapters(
+  text: Uint8Array,
+  encoding: TextEncoding,
+  breaks: number[],
+  toc: Map<number, string> | null,
+  language?: string,
+): { words: WordToken[]; chapters: Chapter[]; textLanguage?: string } {
+  const boundaries = Array.from(
+    new Set([0, ...breaks, ...(toc ? Array.from(toc.keys()) : [])]),
+  )
+    .filter((offset) => offset >= 0 && offset < text.length)
+    .sort((a, b) => a - b);
+
+  const parts = boundaries.map((start, i) => {
+    const end = boundaries[i + 1] ?? text.length;
+    const html = decodeText(text.subarray(start, end), encoding);
+    return { start, html, text: htmlToText(html) };
+  });
+  const textLanguage =
+    language || detectDocumentLanguage(parts.map((part) => part.text));
+
+  const allWords: WordToken[] = [];
+  const chapters: Chapter[] = [];
+
+  for (const part of parts) {
+    const partWords = tokenizeWords(
+      normalizeText(part.text, { language: textLanguage }),
+      false,
+      textLanguage,
+    );
+    if (partWords.length === 0) continue;
+
+    const title = toc?.get(part.start) || findHeading(part.html);
+    if (title) {
+      chapters.push({ title, startIndex: allWords.length });
+    }
+    appendWords(allWords, partWords);
+  }
+
+  return { words: allWords, chapters, textLanguage };
+}
+
+/**
+ * The text of the first h1-h3 heading in an HTML fragment
+ */
+function findHeading(html: string): string | undefined {
+  const match = html.match(/<h([1-3])\b[^>]*>([\s\S]*?)<\/h\1>/i);
+  if (!match) return undefined;
+
+  const title = stripHtmlTags(match[2]).replace(/\s+/g, " ").trim();
+  return title.length > 0 && title.split(" ").length <= 15 ? title : undefined;
+}
+
+function readUint16(data: Uint8Array, offset: number): number {
+  return ((data[offset] ?? 0) << 8) | (data[offset + 1] ?? 0);
+}
+
+function readUint32(data: Uint8Array, offset: number): number {
+  return (
+    (((data[offset] ?? 0) << 24) |
+      ((data[offset + 1] ?? 0) << 16) |
+      ((data[offset + 2] ?? 0) << 8) |
+      (data[offset + 3] ?? 0)) >>>
+    0
+  );
+}
@@ -0,0 +1,402 @@
+// Office Parser Service
+// Extracts text content from Word (DOCX) and OpenDocument (ODT) files using JSZip
+
+import * as FileSystem from "expo-file-system/legacy";
+import JSZip from "jszip";
+import { Chapter, WordToken } from "./book-storage";
+import { detectDocumentLanguage } from "./language-detector";
+import {
+  appendWords,
+  markEmphasis,
+  markHeading,
+  normalizeText,
+  removeStructureMarks,
+  tokenizeWords,
+} from "./text-normalizer";
+import {
+  XMLElement,
+  XMLNode,
+  findElements,
+  getAttribute,
+  getChild,
+  getTextContent,
+  localName,
+  parseXML,
+} from "./xml-parser";
+
+interface OfficeMetadata {
+  title?: string;
+  author?: string;
+}
+
+interface OfficeContent {
+  metadata: OfficeMetadata;
+  language?: string; // The language given, or else the detected one
+  words: WordToken[];
+  chapters: Chapter[];
+}
+
+/**
+ * A paragraph of document text, with its heading level if it is a heading
+ */
+interface OfficeParagraph {
+  text: string;
+  headingLevel?: number;
+}
+
+// Headings up to this level become chapters
+const MAX_CHAPTER_LEVEL = 2;
+
+/**
+ * Parse a Word (.docx) file and extract text content with chapters
+ */
+export async function parseDOCX(
+  filePath: string,
+  language?: string,
+): Promise<OfficeContent> {
+  try {
+    const zip = await loadZip(filePath);
+
+    const documentXml = await zip.file("word/document.xml")?.async("string");
+    if (!documentXml) {
+      throw new Error("Invalid DOCX: Missing word/document.xml");
+    }
+
+    const stylesXml = await zip.file("word/styles.xml")?.async("string");
+    const headingLevels = stylesXml
+      ? extractDOCXHeadingStyles(parseXML(stylesXml))
+      : new Map<string, number>();
+
+    const body = getChild(getChild(parseXML(documentXml), "document"), "body");
+    const paragraphs = findElements(body, "p").map((p) =>
+      readDOCXParagraph(p, headingLevels),
+    );
+
+    const coreXml = await zip.file("docProps/core.xml")?.async("string");
+    const metadata = coreXml
+      ? extractCoreMetadata(getChild(parseXML(coreXml), "coreproperties"))
+      : {};
+
+    return { metadata, ...buildContent(paragraphs, language) };
+  } catch (error) {
+    console.error("Error parsing DOCX:", error);
+    throw error;
+  }
+}
+
+/**
+ * Parse an OpenDocument Text (.odt) file and extract text content with chapters
+ */
+export async function parseODT(
+  filePath: string,
+  language?: string,
+): Promise<OfficeContent> {
+  try {
+    const zip = await loadZip(filePath);
+
+    const contentXml = await zip.file("content.xml")?.async("string");
+    if (!contentXml) {
+      throw new Error("Invalid ODT: Missing content.xml");
+    }
+
+    const body = getChild(
+      getChild(getChild(parseXML(contentXml), "document-content"), "body"),
+      "text",
+    );
+    const paragraphs: OfficeParagraph[] = [];
+    collectODTParagraphs(body, paragraphs);
+
+    const metaXml = await zip.file("meta.xml")?.async("string");
+    const meta = getChild(
+      getChild(parseXML(metaXml || ""), "document-meta"),
+      "meta",
+    );
+    const metadata = extractCoreMetadata(meta);
+
+    return { metadata, ...buildContent(paragraphs, language) };
+  } catch (error) {
+    console.error("Error parsing ODT:", error);
+    throw error;
+  }
+}
+
+/**
+ * Read a file into JSZip
+ */
+async function loadZip(filePath: string): Promise<JSZip> {
+  const fileContent = await FileSystem.readAsStringAsync(filePath, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return JSZip.loadAsync(fileContent, { base64: true });
+}
+
+/**
+ * Turn paragraphs into words, starting a chapter at each top-level heading
+ * The text is normalized for the given language, or else the detected one
+ */
+function buildContent(
+  paragraphs: OfficeParagraph[],
+  language?: string,
+): {
+  language?: string;
+  words: WordToken[];
+  chapters: Chapter[];
+} {
+  const textLanguage =
+    language ||
+    detectDocumentLanguage(paragraphs.map((paragraph) => paragraph.text));
+  const allWords: WordToken[] = [];
+  const chapters: Chapter[] = [];
+  let buffer: string[] = [];
+
+  const flush = () => {
+    const normalizedText = normalizeText(buffer.join("\n\n"), {
+      language: textLanguage,
+    });
+    appendWords(allWords, tokenizeWords(normalizedText, false, textLanguage));
+    buffer = [];
+  };
+
+  for (const paragraph of paragraphs) {
+    const text = paragraph.text.trim();
+    if (removeStructureMarks(text).trim().length === 0) continue;
+
+    const level = paragraph.headingLevel;
+    if (level !== undefined && level <= MAX_CHAPTER_LEVEL) {
+      flush();
+      chapters.push({
+        title: removeStructureMarks(text).replace(/\s+/g, " "),
+        startIndex: allWords.length,
+      });
+    }
+    buffer.push(level !== undefined ? markHeading(text) : text);
+  }
+  flush();
+
+  if (allWords.length === 0) {
+    throw new Error("This document doesn't contain any readable text.");
+  }
+
+  // If no chapters found, create a single "Start" chapter
+  if (chapters.length === 0) {
+    chapters.push({
+      title: "Start",
+      startIndex: 0,
+    });
+  }
+
+  return { language: textLanguage, words: allWords, chapters };
+}
+
+/**
+ * Read dc:title and dc:creator (docProps/core.xml or ODT meta.xml)
+ */
+function extractCoreMetadata(properties: XMLElement | null): OfficeMetadata {
+  const metadata: OfficeMetadata = {};
+
+  const title = getTextContent(getChild(properties, "title")).trim();
+  if (title) metadata.title = title;
+
+  const author = (
+    getTextContent(getChild(properties, "creator")) ||
+    getTextContent(getChild(properties, "initial-creator"))
+  ).trim();
+  if (author) metadata.author = author;
+
+  return metadata;
+}
+
+// ============================================================================
+// DOCX
+// ============================================================================
+
+/**
+ * Map paragraph style IDs to heading levels using word/styles.xml
+ * Uses the built-in "heading N" names or an outline level, following basedOn
+ */
+function extractDOCXHeadingStyles(styles: XMLElement): Map<string, number> {
+  const ownLevels = new Map<string, number>();
+  const basedOn = new Map<string, string>();
+
+  for (const style of findElements(styles, "style")) {
+    if (getAttribute(style, "type") !== "paragraph") continue;
+    const id = getAttribute(style, "styleId");
+    if (!id) continue;
+
+    const name = getAttribute(getChild(style, "name"), "val") || "";
+    const nameMatch = name.match(/^heading\s*(\d)$/i);
+    const outline = getAttribute(
+      getChild(getChild(style, "pPr"), "outlineLvl"),
+      "val",
+    );
+
+    if (nameMatch) {
+      ownLevels.set(id, parseInt(nameMatch[1], 10));
+    } else if (outline !== undefined && /^[0-8]$/.test(outline)) {
+      // Outline level 9 means body text
+      ownLevels.set(id, parseInt(outline, 10) + 1);
+    }
+
+    const parent = getAttribute(getChild(style, "basedOn"), "val");
+    if (parent) basedOn.set(id, parent);
+  }
+
+  // Styles inherit a heading level from the style they are based on
+  const levels = new Map<string, number>();
+  const resolveLevel = (id: string, depth: number): number | undefined => {
+    if (ownLevels.has(id)) return ownLevels.get(id);
+    const parent = basedOn.get(id);
+    return parent && depth < 10 ? resolveLevel(parent, depth + 1) : undefined;
+  };
+  basedOn.forEach((_, id) => {
+    const level = resolveLevel(id, 0);
+    if (level !== undefined) levels.set(id, level);
+  });
+  ownLevels.forEach((level, id) => levels.set(id, level));
+
+  return levels;
+}
+
+/**
+ * Read a <w:p> into text, detecting headings from its style or outline level
+ */
+function readDOCXParagraph(
+  paragraph: XMLElement,
+  headingLevels: Map<string, number>,
+): OfficeParagraph {
+  const properties = getChild(paragraph, "pPr");
+  const styleId = getAttribute(getChild(properties, "pStyle"), "val");
+  const outline = getAttribute(getChild(properties, "outlineLvl"), "val");
+
+  let headingLevel: number | undefined;
+  if (outline !== undefined && /^[0-8]$/.test(outline)) {
+    headingLevel = parseInt(outline, 10) + 1;
+  } else if (styleId) {
+    // Fall back to the conventional "Heading1" IDs when styles.xml is missing
+    const idMatch = styleId.match(/^heading\s*(\d)$/i);
+    headingLevel =
+      headingLevels.get(styleId) ??
+      (idMatch ? parseInt(idMatch[1], 10) : undefined);
+  }
+
+  return { text: readDOCXText(paragraph), headingLevel };
+}
+
+/**
+ * Collect the visible text of a paragraph's runs
+ */
+function readDOCXText(node: XMLElement): string {
+  let text = "";
+
+  for (const child of node.children) {
+    if (child.type === "text") continue;
+
+    switch (localName(child.name)) {
+      case "t":
+        text += getTextContent(child);
+        break;
+      case "tab":
+        text += " ";
+        break;
+      case "br":
+      case "cr":
+        text += "\n";
+        break;
+      case "nobreakhyphen":
+        text += "-";
+        break;
+      case "r": {
+        const run = readDOCXText(child);
+        text += isDOCXEmphasis(child) ? markEmphasis(run) : run;
+        break;
+      }
+      // Properties, deleted revisions, field codes and nested text boxes
+      case "ppr":
+      case "rpr":
+      case "del":
+      case "deltext":
+      case "instrtext":
+      case "txbxcontent":
+        break;
+      default:
+        text += readDOCXText(child);
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Check whether a run is set in italics or bold (<w:i/>, <w:b/>)
+ */
+function isDOCXEmphasis(run: XMLElement): boolean {
+  const properties = getChild(run, "rPr");
+  return ["i", "b"].some((name) => {
+    const property = getChild(properties, name);
+    if (!property) return false;
+    const value = (getAttribute(property, "val") || "true").toLowerCase();
+    return value !== "0" && value !== "false" && value !== "off";
+  });
+}
+
+// ============================================================================
+// ODT
+// ============================================================================
+
+/**
+ * Collect <text:p> and <text:h> paragraphs in document order, descending into
+ * lists, sections and tables
+ */
+function collectODTParagraphs(
+  element: XMLElement | null,
+  paragraphs: OfficeParagraph[],
+): void {
+  if (!element) return;
+
+  for (const child of element.children) {
+    if (child.type === "text") continue;
+
+    const name = localName(child.name);
+    if (name === "h") {
+      const level = parseInt(getAttribute(child, "outline-level") || "1", 10);
+      paragraphs.push({
+        text: readODTText(child),
+        headingLevel: Number.isNaN(level) ? 1 : level,
+      });
+    } else if (name === "p") {
+      paragraphs.push({ text: readODTText(child) });
+    } else if (
+      name !== "tracked-changes" &&
+      name !== "sequence-decls" &&
+      name !== "variable-decls" &&
+      name !== "annotation"
+    ) {
+      collectODTParagraphs(child, paragraphs);
+    }
+  }
+}
+
+/**
+ * Collect the visible text of an ODT paragraph
+ */
+function readODTText(node: XMLNode): string {
+  if (node.type === "text") return node.text;
+
+  switch (localName(node.name)) {
+    case "s": {
+      const count = parseInt(getAttribute(node, "c") || "1", 10);
+      return " ".repeat(Number.isNaN(count) ? 1 : Math.min(count, 100));
+    }
+    case "tab":
+      return " ";
+    case "line-break":
+      return "\n";
+    // Footnotes, comments and drawings are not part of the main text
+    case "note":
+    case "annotation":
+    case "frame":
+      return "";
+    default:
+      return node.children.map(readODTText).join("");
+  }
+}
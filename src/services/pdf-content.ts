@@ -0,0 +1,329 @@
+// PDF Content Service
+// Interprets page content streams and collects the text they draw
+
+import { PDFFont, decodeGlyphs, getFontResource } from "./pdf-fonts";
+import {
+  PDFCursor,
+  PDFDict,
+  PDFDocument,
+  PDFValue,
+  decodeStream,
+  dictGet,
+  dictGetDict,
+  dictGetName,
+  isKeyword,
+  isName,
+  isStream,
+  isString,
+  readToken,
+} from "./pdf-objects";
+
+export interface PDFTextRun {
+  text: string;
+  x: number; // Baseline start, in page space
+  y: number;
+  endX: number; // Baseline end after the last glyph's advance
+  fontSize: number; // Effective size on the page, in user space units
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+interface GraphicsState {
+  font: PDFFont | null;
+  fontSize: number;
+  ctm: Matrix; // Current transformation matrix
+  charSpacing: number; // Tc
+  wordSpacing: number; // Tw
+  horizontalScale: number; // Tz, as a fraction
+  leading: number; // TL
+  rise: number; // Ts
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const MAX_FORM_DEPTH = 8;
+
+/**
+ * Interpret a content stream and return the positioned text runs it shows,
+ * in drawing order
+ */
+export function extractTextRuns(
+  doc: PDFDocument,
+  content: Uint8Array,
+  resources: PDFDict | null,
+): PDFTextRun[] {
+  const runs: PDFTextRun[] = [];
+  interpret(doc, content, resources, IDENTITY, runs, 0);
+  return runs;
+}
+
+function interpret(
+  doc: PDFDocument,
+  content: Uint8Array,
+  resources: PDFDict | null,
+  ctm: Matrix,
+  runs: PDFTextRun[],
+  depth: number,
+): void {
+  const cursor: PDFCursor = { data: content, pos: 0 };
+  const operands: PDFValue[] = [];
+  const stateStack: GraphicsState[] = [];
+  let state: GraphicsState = {
+    font: null,
+    fontSize: 0,
+    ctm,
+    charSpacing: 0,
+    wordSpacing: 0,
+    horizontalScale: 1,
+    leading: 0,
+    rise: 0,
+  };
+  let textMatrix: Matrix = IDENTITY;
+  let lineMatrix: Matrix = IDENTITY;
+
+  const moveLine = (tx: number, ty: number) => {
+    lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix);
+    textMatrix = lineMatrix;
+  };
+
+  const showText = (bytes: Uint8Array) => {
+    if (!state.font) return;
+
+    const glyphs = decodeGlyphs(state.font, bytes);
+    const start = transformPoint(0, state.rise, multiply(textMatrix, state.ctm));
+    let text = "";
+
+    // Advance the text matrix glyph by glyph
+    for (const glyph of glyphs) {
+      const advance =
+        (glyph.width * state.fontSize +
+          state.charSpacing +
+          (glyph.isWordSpace ? state.wordSpacing : 0)) *
+        state.horizontalScale;
+      textMatrix = multiply([1, 0, 0, 1, advance, 0], textMatrix);
+      text += glyph.text;
+    }
+
+    if (text.length === 0) return;
+
+    const renderMatrix = multiply(textMatrix, state.ctm);
+    const end = transformPoint(0, state.rise, renderMatrix);
+
+    // Vertical scale of the combined text and page transforms
+    const fontSize = Math.abs(state.fontSize) * Math.hypot(renderMatrix[2], renderMatrix[3]);
+
+    runs.push({ text, x: start[0], y: start[1], endX: end[0], fontSize });
+  };
+
+  while (true) {
+    const token = readToken(cursor);
+    if (token === undefined) break;
+
+    if (!isKeyword(token)) {
+      operands.push(token);
+      continue;
+    }
+
+    const [a, b] = operands;
+
+    switch (token.keyword) {
+      case "q":
+        stateStack.push({ ...state });
+        break;
+      case "Q":
+        state = stateStack.pop() || state;
+        break;
+
+      case "cm": {
+        const matrix = readMatrix(operands);
+        if (matrix) state.ctm = multiply(matrix, state.ctm);
+        break;
+      }
+
+      case "BT":
+        textMatrix = IDENTITY;
+        lineMatrix = IDENTITY;
+        break;
+
+      case "Tm":
+        textMatrix = readMatrix(operands) || textMatrix;
+        lineMatrix = textMatrix;
+        break;
+
+      case "Td":
+        if (typeof a === "number" && typeof b === "number") moveLine(a, b);
+        break;
+
+      case "TD":
+        if (typeof a === "number" && typeof b === "number") {
+          state.leading = -b;
+          moveLine(a, b);
+        }
+        break;
+
+      case "T*":
+        moveLine(0, -state.leading);
+        break;
+
+      case "Tc":
+        if (typeof a === "number") state.charSpacing = a;
+        break;
+      case "Tw":
+        if (typeof a === "number") state.wordSpacing = a;
+        break;
+      case "Tz":
+        if (typeof a === "number") state.horizontalScale = a / 100;
+        break;
+      case "TL":
+        if (typeof a === "number") state.leading = a;
+        break;
+      case "Ts":
+        if (typeof a === "number") state.rise = a;
+        break;
+
+      case "Tf":
+        state.font = isName(a) ? getFontResource(doc, resources, a.name) : null;
+        if (typeof b === "number") state.fontSize = b;
+        break;
+
+      case "Tj":
+        if (isString(a)) showText(a.bytes);
+        break;
+
+      case "'":
+        moveLine(0, -state.leading);
+        if (isString(a)) showText(a.bytes);
+        break;
+
+      case '"': {
+        // aw ac (string) "
+        const str = operands[2];
+        if (typeof a === "number") state.wordSpacing = a;
+        if (typeof b === "number") state.charSpacing = b;
+        moveLine(0, -state.leading);
+        if (isString(str)) showText(str.bytes);
+        break;
+      }
+
+      case "TJ":
+        if (Array.isArray(a)) {
+          for (const item of a) {
+            if (isString(item)) {
+              showText(item.bytes);
+            } else if (typeof item === "number") {
+              // Adjustments are in thousandths of a unit of font size
+              const adjust =
+                (-item / 1000) * state.fontSize * state.horizontalScale;
+              textMatrix = multiply([1, 0, 0, 1, adjust, 0], textMatrix);
+            }
+          }
+        }
+        break;
+
+      case "Do":
+        if (isName(a) && depth < MAX_FORM_DEPTH) {
+          runForm(doc, resources, a.name, state.ctm, runs, depth);
+        }
+        break;
+
+      case "BI":
+        skipInlineImage(cursor);
+        break;
+    }
+
+    operands.length = 0;
+  }
+}
+
+/**
+ * Interpret a Form XObject drawn with "Do", which may contain text
+ */
+function runForm(
+  doc: PDFDocument,
+  resources: PDFDict | null,
+  name: string,
+  ctm: Matrix,
+  runs: PDFTextRun[],
+  depth: number,
+): void {
+  const xobjects = dictGetDict(doc, resources, "XObject");
+  const form = dictGet(doc, xobjects, name);
+  if (!isStream(form) || dictGetName(doc, form, "Subtype") !== "Form") return;
+
+  let data: Uint8Array;
+  try {
+    data = decodeStream(doc, form);
+  } catch (error) {
+    console.warn("Skipping undecodable form XObject:", error);
+    return;
+  }
+
+  const formResources = dictGetDict(doc, form, "Resources") || resources;
+  const formMatrix = readMatrix(dictGet(doc, form, "Matrix") as PDFValue[]);
+  const formCtm = formMatrix ? multiply(formMatrix, ctm) : ctm;
+  interpret(doc, data, formResources, formCtm, runs, depth + 1);
+}
+
+/**
+ * Read six numbers (a b c d e f) as a matrix
+ */
+function readMatrix(values: PDFValue[] | null): Matrix | null {
+  if (!Array.isArray(values) || values.length < 6) return null;
+  const numbers = values.slice(-6);
+  if (!numbers.every((n) => typeof n === "number")) return null;
+  return numbers as Matrix;
+}
+
+/**
+ * Apply a matrix to a point
+ */
+function transformPoint(x: number, y: number, m: Matrix): [number, number] {
+  return [x * m[0] + y * m[2] + m[4], x * m[1] + y * m[3] + m[5]];
+}
+
+/**
+ * Multiply two affine matrices (m1 applied first, then m2)
+ */
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[1] * m2[2],
+    m1[0] * m2[1] + m1[1] * m2[3],
+    m1[2] * m2[0] + m1[3] * m2[2],
+    m1[2] * m2[1] + m1[3] * m2[3],
+    m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+    m1[4] * m2[1] + m1[5] * m2[3] + m2[5],
+  ];
+}
+
+/**
+ * Skip "BI <dict> ID <binary data> EI" without lexing the image bytes
+ */
+function skipInlineImage(cursor: PDFCursor): void {
+  // Read the image dictionary up to the ID keyword
+  while (true) {
+    const token = readToken(cursor);
+    if (token === undefined || isKeyword(token, "ID")) break;
+  }
+
+  const { data } = cursor;
+  cursor.pos++; // Single whitespace after ID
+
+  // EI must stand alone, surrounded by whitespace
+  while (cursor.pos + 1 < data.length) {
+    if (
+      data[cursor.pos] === 0x45 &&
+      data[cursor.pos + 1] === 0x49 &&
+      isSeparator(data[cursor.pos - 1]) &&
+      (cursor.pos + 2 >= data.length || isSeparator(data[cursor.pos + 2]))
+    ) {
+      cursor.pos += 2;
+      return;
+    }
+    cursor.pos++;
+  }
+  cursor.pos = data.length;
+}
+
+function isSeparator(byte: number): boolean {
+  return byte === 0x20 || byte === 0x0a || byte === 0x0d || byte === 0x09;
+}
@@ -0,0 +1,358 @@
+// PDF Filters Service
+// Decodes compressed/encoded PDF stream data (FlateDecode, LZW, ASCII85, ...)
+
+import { Inflate } from "pako";
+
+export interface FilterParams {
+  predictor?: number;
+  colors?: number;
+  bitsPerComponent?: number;
+  columns?: number;
+  earlyChange?: number;
+}
+
+/**
+ * Apply a chain of PDF filters to raw stream data, in order
+ * Throws for filters we don't support (image codecs like DCTDecode)
+ */
+export function applyFilters(
+  data: Uint8Array,
+  filters: string[],
+  params: (FilterParams | null)[] = [],
+): Uint8Array {
+  let result = data;
+
+  filters.forEach((filter, i) => {
+    const filterParams = params[i] || {};
+
+    switch (filter) {
+      case "FlateDecode":
+      case "Fl":
+        result = applyPredictor(flateDecode(result), filterParams);
+        break;
+      case "LZWDecode":
+      case "LZW":
+        result = applyPredictor(
+          lzwDecode(result, filterParams.earlyChange ?? 1),
+          filterParams,
+        );
+        break;
+      case "ASCII85Decode":
+      case "A85":
+        result = ascii85Decode(result);
+        break;
+      case "ASCIIHexDecode":
+      case "AHx":
+        result = asciiHexDecode(result);
+        break;
+      case "RunLengthDecode":
+      case "RL":
+        result = runLengthDecode(result);
+        break;
+      default:
+        throw new Error(`Unsupported PDF filter: ${filter}`);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Inflate zlib/deflate data
+ * Falls back to raw deflate and to partial output for damaged streams
+ */
+function flateDecode(data: Uint8Array): Uint8Array {
+  let partial: Uint8Array = new Uint8Array(0);
+
+  for (const raw of [false, true]) {
+    const chunks: Uint8Array[] = [];
+    const inflator = new Inflate({ raw });
+    inflator.onData = (chunk) => {
+      chunks.push(chunk as Uint8Array);
+    };
+    if (inflator.push(data, true)) {
+      return concatBytes(chunks);
+    }
+    const output = concatBytes(chunks);
+    if (output.length > partial.length) partial = output;
+  }
+
+  // Truncated streams are common, so keep whatever was inflated
+  if (partial.length > 0) {
+    return partial;
+  }
+
+  throw new Error("Could not inflate FlateDecode stream");
+}
+
+/**
+ * Decode LZW data (variable code length, 9 to 12 bits)
+ */
+function lzwDecode(data: Uint8Array, earlyChange: number): Uint8Array {
+  const output: number[] = [];
+  let table: number[][] = [];
+  let codeLength = 9;
+  let previous: number[] | null = null;
+
+  const resetTable = () => {
+    table = [];
+    for (let i = 0; i < 256; i++) table.push([i]);
+    table.push([], []); // 256 = clear table, 257 = end of data
+    codeLength = 9;
+    previous = null;
+  };
+  resetTable();
+
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let pos = 0;
+
+  while (true) {
+    while (bitCount < codeLength && pos < data.length) {
+      bitBuffer = ((bitBuffer << 8) | data[pos++]) & 0xffffff;
+      bitCount += 8;
+    }
+    if (bitCount < codeLength) break;
+
+    const code = (bitBuffer >> (bitCount - codeLength)) & ((1 << codeLength) - 1);
+    bitCount -= codeLength;
+
+    if (code === 256) {
+      resetTable();
+      continue;
+    }
+    if (code === 257) break;
+
+    let entry: number[];
+    if (code < table.length) {
+      entry = table[code];
+    } else if (code === table.length && previous) {
+      entry = [...previous, previous[0]];
+    } else {
+      break; // Corrupt code
+    }
+
+    for (const byte of entry) output.push(byte);
+
+    if (previous) {
+      table.push([...previous, entry[0]]);
+    }
+    previous = entry;
+
+    if (table.length + earlyChange >= 1 << codeLength && codeLength < 12) {
+      codeLength++;
+    }
+  }
+
+  return Uint8Array.from(output);
+}
+
+/**
+ * Decode ASCII base-85 data
+ */
+function ascii85Decode(data: Uint8Array): Uint8Array {
+  const output: number[] = [];
+  const group: number[] = [];
+
+  const flushGroup = (length: number) => {
+    // Pad partial groups with 'u' (84) and drop the padded bytes
+    while (group.length < 5) group.push(84);
+    let value = 0;
+    for (const digit of group) value = value * 85 + digit;
+    const bytes = [
+      (value >>> 24) & 0xff,
+      (value >>> 16) & 0xff,
+      (value >>> 8) & 0xff,
+      value & 0xff,
+    ];
+    for (let i = 0; i < length - 1; i++) output.push(bytes[i]);
+    group.length = 0;
+  };
+
+  for (let i = 0; i < data.length; i++) {
+    const char = data[i];
+
+    if (char === 0x7e) break; // "~>" end marker
+    if (isWhitespaceByte(char)) continue;
+
+    if (char === 0x7a && group.length === 0) {
+      // "z" is shorthand for four zero bytes
+      output.push(0, 0, 0, 0);
+      continue;
+    }
+
+    if (char < 33 || char > 117) continue;
+    group.push(char - 33);
+    if (group.length === 5) flushGroup(5);
+  }
+
+  if (group.length > 1) flushGroup(group.length);
+
+  return Uint8Array.from(output);
+}
+
+/**
+ * Decode ASCII hexadecimal data
+ */
+function asciiHexDecode(data: Uint8Array): Uint8Array {
+  const output: number[] = [];
+  let high = -1;
+
+  for (let i = 0; i < data.length; i++) {
+    const char = data[i];
+    if (char === 0x3e) break; // ">" end marker
+
+    const digit = hexDigitValue(char);
+    if (digit < 0) continue;
+
+    if (high < 0) {
+      high = digit;
+    } else {
+      output.push((high << 4) | digit);
+      high = -1;
+    }
+  }
+
+  // An odd final digit behaves as if followed by 0
+  if (high >= 0) output.push(high << 4);
+
+  return Uint8Array.from(output);
+}
+
+/**
+ * Decode run-length encoded data
+ */
+function runLengthDecode(data: Uint8Array): Uint8Array {
+  const output: number[] = [];
+  let i = 0;
+
+  while (i < data.length) {
+    const length = data[i++];
+    if (length === 128) break;
+
+    if (length < 128) {
+      for (let j = 0; j <= length && i < data.length; j++) {
+        output.push(data[i++]);
+      }
+    } else if (i < data.length) {
+      const byte = data[i++];
+      for (let j = 0; j < 257 - length; j++) output.push(byte);
+    }
+  }
+
+  return Uint8Array.from(output);
+}
+
+/**
+ * Undo PNG (10+) or TIFF (2) predictors applied before compression
+ */
+function applyPredictor(data: Uint8Array, params: FilterParams): Uint8Array {
+  const predictor = params.predictor ?? 1;
+  if (predictor <= 1) return data;
+
+  const colors = params.colors ?? 1;
+  const bitsPerComponent = params.bitsPerComponent ?? 8;
+  const columns = params.columns ?? 1;
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bitsPerComponent) / 8));
+  const rowLength = Math.ceil((colors * bitsPerComponent * columns) / 8);
+
+  if (predictor === 2) {
+    if (bitsPerComponent !== 8) return data;
+    const output = new Uint8Array(data);
+    for (let row = 0; row < output.length; row += rowLength) {
+      for (let i = bytesPerPixel; i < rowLength && row + i < output.length; i++) {
+        output[row + i] = (output[row + i] + output[row + i - bytesPerPixel]) & 0xff;
+      }
+    }
+    return output;
+  }
+
+  // PNG predictors: every row is prefixed with its own filter type byte
+  const rowCount = Math.floor(data.length / (rowLength + 1));
+  const output = new Uint8Array(rowCount * rowLength);
+  let previousRow = new Uint8Array(rowLength);
+
+  for (let row = 0; row < rowCount; row++) {
+    const inputStart = row * (rowLength + 1);
+    const filterType = data[inputStart];
+    const current = output.subarray(row * rowLength, (row + 1) * rowLength);
+
+    for (let i = 0; i < rowLength; i++) {
+      const raw = data[inputStart + 1 + i];
+      const left = i >= bytesPerPixel ? current[i - bytesPerPixel] : 0;
+      const up = previousRow[i];
+      const upLeft = i >= bytesPerPixel ? previousRow[i - bytesPerPixel] : 0;
+
+      switch (filterType) {
+        case 1:
+          current[i] = (raw + left) & 0xff;
+          break;
+        case 2:
+          current[i] = (raw + up) & 0xff;
+          break;
+        case 3:
+          current[i] = (raw + ((left + up) >> 1)) & 0xff;
+          break;
+        case 4:
+          current[i] = (raw + paethPredictor(left, up, upLeft)) & 0xff;
+          break;
+        default:
+          current[i] = raw;
+      }
+    }
+
+    previousRow = current;
+  }
+
+  return output;
+}
+
+function paethPredictor(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distLeft = Math.abs(estimate - left);
+  const distUp = Math.abs(estimate - up);
+  const distUpLeft = Math.abs(estimate - upLeft);
+  if (distLeft <= distUp && distLeft <= distUpLeft) return left;
+  if (distUp <= distUpLeft) return up;
+  return upLeft;
+}
+
+/**
+ * Concatenate byte chunks into a single array
+ */
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  let length = 0;
+  for (const chunk of chunks) length += chunk.length;
+
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * PDF whitespace: NUL, tab, LF, FF, CR and space
+ */
+export function isWhitespaceByte(byte: number): boolean {
+  return (
+    byte === 0x20 ||
+    byte === 0x0a ||
+    byte === 0x0d ||
+    byte === 0x09 ||
+    byte === 0x0c ||
+    byte === 0x00
+  );
+}
+
+/**
+ * Value of a hex digit byte, or -1 if it isn't one
+ */
+export function hexDigitValue(byte: number): number {
+  if (byte >= 0x30 && byte <= 0x39) return byte - 0x30;
+  if (byte >= 0x41 && byte <= 0x46) return byte - 0x37;
+  if (byte >= 0x61 && byte <= 0x66) return byte - 0x57;
+  return -1;
+}
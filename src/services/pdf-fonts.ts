@@ -0,0 +1,592 @@
+// PDF Fonts Service
+// Maps character codes in PDF text strings to Unicode using font encodings
+// and ToUnicode CMaps
+
+import {
+  PDFCursor,
+  PDFDict,
+  PDFDocument,
+  PDFValue,
+  decodeStream,
+  dictGet,
+  dictGetDict,
+  dictGetName,
+  dictGetNumber,
+  isDict,
+  isKeyword,
+  isName,
+  isStream,
+  isString,
+  readToken,
+  resolve,
+} from "./pdf-objects";
+import { WINDOWS_1252_HIGH } from "./text-encoding";
+
+interface CodespaceRange {
+  low: number;
+  high: number;
+  length: number; // Code length in bytes
+}
+
+export interface PDFFont {
+  composite: boolean; // Type0 font with multi-byte codes
+  codespace: CodespaceRange[];
+  toUnicode: Map<number, string> | null;
+  encoding: string[] | null; // Unicode text per code, for simple fonts
+  ucs2: boolean; // Codes already are UCS-2 values (Uni*-UCS2-H CMaps)
+  widths: Map<number, number>; // Glyph widths in glyph space, by code
+  defaultWidth: number;
+  widthScale: number; // Glyph space to text space (1/1000 except Type3)
+}
+
+export interface PDFGlyph {
+  code: number;
+  text: string;
+  width: number; // Advance in text space, per unit of font size
+  isWordSpace: boolean; // Single-byte code 32, affected by Tw
+}
+
+// ============================================================================
+// Base encodings
+// ============================================================================
+
+// Mac OS Roman characters for 0x80-0xFF
+const MAC_ROMAN_HIGH =
+  "ÄÅÇÉÑÖÜáàâäãåçéèêëíìîïñóòôöõúùûü†°¢£§•¶ß®©™´¨≠ÆØ∞±≤≥¥µ∂∑∏π∫ªºΩæø" +
+  "¿¡¬√ƒ≈∆«»…\u00A0ÀÃÕŒœ–—“”‘’÷◊ÿŸ⁄€‹›ﬁﬂ‡·‚„‰ÂÊÁËÈÍÎÏÌÓÔ\uF8FFÒÚÛÙıˆ˜¯˘˙˚¸˝˛ˇ";
+
+// Adobe StandardEncoding positions that differ from ASCII/Latin-1
+const STANDARD_OVERRIDES: Record<number, string> = {
+  0x27: "’", 0x60: "‘", 0xa1: "¡", 0xa2: "¢", 0xa3: "£", 0xa4: "⁄",
+  0xa5: "¥", 0xa6: "ƒ", 0xa7: "§", 0xa8: "¤", 0xa9: "'", 0xaa: "“",
+  0xab: "«", 0xac: "‹", 0xad: "›", 0xae: "ﬁ", 0xaf: "ﬂ", 0xb1: "–",
+  0xb2: "†", 0xb3: "‡", 0xb4: "·", 0xb6: "¶", 0xb7: "•", 0xb8: "‚",
+  0xb9: "„", 0xba: "”", 0xbb: "»", 0xbc: "…", 0xbd: "‰", 0xbf: "¿",
+  0xc1: "`", 0xc2: "´", 0xc3: "ˆ", 0xc4: "˜", 0xc5: "¯", 0xc6: "˘",
+  0xc7: "˙", 0xc8: "¨", 0xca: "˚", 0xcb: "¸", 0xcd: "˝", 0xce: "˛",
+  0xcf: "ˇ", 0xd0: "—", 0xe1: "Æ", 0xe3: "ª", 0xe8: "Ł", 0xe9: "Ø",
+  0xea: "Œ", 0xeb: "º", 0xf1: "æ", 0xf5: "ı", 0xf8: "ł", 0xf9: "ø",
+  0xfa: "œ", 0xfb: "ß",
+};
+
+function buildEncoding(name: string | undefined): string[] {
+  const table: string[] = [];
+  for (let code = 0; code < 256; code++) {
+    if (code < 0x20) {
+      table.push("");
+    } else if (name === "MacRomanEncoding" && code >= 0x80) {
+      table.push(MAC_ROMAN_HIGH[code - 0x80]);
+    } else if (name === "StandardEncoding") {
+      table.push(
+        STANDARD_OVERRIDES[code] ?? (code < 0x7f ? String.fromCharCode(code) : ""),
+      );
+    } else if (code >= 0x80 && code <= 0x9f) {
+      // WinAnsiEncoding: Windows-1252, which matches Latin-1 elsewhere
+      table.push(WINDOWS_1252_HIGH[code - 0x80]);
+    } else {
+      table.push(String.fromCharCode(code));
+    }
+  }
+  return table;
+}
+
+// ============================================================================
+// Glyph names
+// ============================================================================
+
+const ASCII_GLYPH_NAMES = [
+  "space", "exclam", "quotedbl", "numbersign", "dollar", "percent",
+  "ampersand", "quotesingle", "parenleft", "parenright", "asterisk", "plus",
+  "comma", "hyphen", "period", "slash", "zero", "one", "two", "three", "four",
+  "five", "six", "seven", "eight", "nine", "colon", "semicolon", "less",
+  "equal", "greater", "question", "at",
+];
+
+const ASCII_TAIL_GLYPH_NAMES: Record<string, string> = {
+  bracketleft: "[", backslash: "\\", bracketright: "]", asciicircum: "^",
+  underscore: "_", grave: "`", braceleft: "{", bar: "|", braceright: "}",
+  asciitilde: "~",
+};
+
+// Glyph names for U+00A1 to U+00FF, in order
+const LATIN1_GLYPH_NAMES = [
+  "exclamdown", "cent", "sterling", "currency", "yen", "brokenbar", "section",
+  "dieresis", "copyright", "ordfeminine", "guillemotleft", "logicalnot",
+  "sfthyphen", "registered", "macron", "degree", "plusminus", "twosuperior",
+  "threesuperior", "acute", "mu", "paragraph", "periodcentered", "cedilla",
+  "onesuperior", "ordmasculine", "guillemotright", "onequarter", "onehalf",
+  "threequarters", "questiondown", "Agrave", "Aacute", "Acircumflex",
+  "Atilde", "Adieresis", "Aring", "AE", "Ccedilla", "Egrave", "Eacute",
+  "Ecircumflex", "Edieresis", "Igrave", "Iacute", "Icircumflex", "Idieresis",
+  "Eth", "Ntilde", "Ograve", "Oacute", "Ocircumflex", "Otilde", "Odieresis",
+  "multiply", "Oslash", "Ugrave", "Uacute", "Ucircumflex", "Udieresis",
+  "Yacute", "Thorn", "germandbls", "agrave", "aacute", "acircumflex",
+  "atilde", "adieresis", "aring", "ae", "ccedilla", "egrave", "eacute",
+  "ecircumflex", "edieresis", "igrave", "iacute", "icircumflex", "idieresis",
+  "eth", "ntilde", "ograve", "oacute", "ocircumflex", "otilde", "odieresis",
+  "divide", "oslash", "ugrave", "uacute", "ucircumflex", "udieresis",
+  "yacute", "thorn", "ydieresis",
+];
+
+const EXTRA_GLYPH_NAMES: Record<string, string> = {
+  quoteleft: "‘", quoteright: "’", quotedblleft: "“", quotedblright: "”",
+  quotesinglbase: "‚", quotedblbase: "„", guilsinglleft: "‹",
+  guilsinglright: "›", endash: "–", emdash: "—", bullet: "•", ellipsis: "…",
+  dagger: "†", daggerdbl: "‡", perthousand: "‰", trademark: "™", Euro: "€",
+  minus: "−", fraction: "⁄", florin: "ƒ", circumflex: "ˆ", tilde: "˜",
+  breve: "˘", dotaccent: "˙", ring: "˚", ogonek: "˛", caron: "ˇ",
+  hungarumlaut: "˝", nbspace: "\u00A0", nonbreakingspace: "\u00A0",
+  fi: "ﬁ", fl: "ﬂ", ff: "ﬀ", ffi: "ﬃ", ffl: "ﬄ", OE: "Œ", oe: "œ",
+  Scaron: "Š", scaron: "š", Zcaron: "Ž", zcaron: "ž", Ydieresis: "Ÿ",
+  dotlessi: "ı", Lslash: "Ł", lslash: "ł", Abreve: "Ă", abreve: "ă",
+  Aogonek: "Ą", aogonek: "ą", Amacron: "Ā", amacron: "ā", Cacute: "Ć",
+  cacute: "ć", Ccaron: "Č", ccaron: "č", Dcaron: "Ď", dcaron: "ď",
+  Dcroat: "Đ", dcroat: "đ", Ecaron: "Ě", ecaron: "ě", Eogonek: "Ę",
+  eogonek: "ę", Emacron: "Ē", emacron: "ē", Edotaccent: "Ė", edotaccent: "ė",
+  Gbreve: "Ğ", gbreve: "ğ", Idotaccent: "İ", Imacron: "Ī", imacron: "ī",
+  Iogonek: "Į", iogonek: "į", Lacute: "Ĺ", lacute: "ĺ", Lcaron: "Ľ",
+  lcaron: "ľ", Nacute: "Ń", nacute: "ń", Ncaron: "Ň", ncaron: "ň",
+  Ohungarumlaut: "Ő", ohungarumlaut: "ő", Omacron: "Ō", omacron: "ō",
+  Racute: "Ŕ", racute: "ŕ", Rcaron: "Ř", rcaron: "ř", Sacute: "Ś",
+  sacute: "ś", Scedilla: "Ş", scedilla: "ş", Tcaron: "Ť", tcaron: "ť",
+  Uring: "Ů", uring: "ů", Uhungarumlaut: "Ű", uhungarumlaut: "ű",
+  Umacron: "Ū", umacron: "ū", Uogonek: "Ų", uogonek: "ų", Zacute: "Ź",
+  zacute: "ź", Zdotaccent: "Ż", zdotaccent: "ż", onesuperior: "¹",
+  periodcentered: "·", middot: "·", copyrightserif: "©",
+  registerserif: "®", trademarkserif: "™",
+};
+
+const LIGATURES: Record<string, string> = {
+  "\uFB00": "ff",
+  "\uFB01": "fi",
+  "\uFB02": "fl",
+  "\uFB03": "ffi",
+  "\uFB04": "ffl",
+  "\uFB05": "st",
+  "\uFB06": "st",
+};
+
+let glyphNameTable: Map<string, string> | null = null;
+
+function getGlyphNameTable(): Map<string, string> {
+  if (glyphNameTable) return glyphNameTable;
+
+  const table = new Map<string, string>();
+  ASCII_GLYPH_NAMES.forEach((name, i) => table.set(name, String.fromCharCode(0x20 + i)));
+  Object.entries(ASCII_TAIL_GLYPH_NAMES).forEach(([name, text]) => table.set(name, text));
+  LATIN1_GLYPH_NAMES.forEach((name, i) => table.set(name, String.fromCharCode(0xa1 + i)));
+  Object.entries(EXTRA_GLYPH_NAMES).forEach(([name, text]) => table.set(name, text));
+
+  glyphNameTable = table;
+  return table;
+}
+
+/**
+ * Map a glyph name (e.g. "eacute", "uni00E9", "f_i", "a.sc") to Unicode
+ * Returns undefined for names we can't interpret (e.g. "g123")
+ */
+export function glyphNameToUnicode(name: string): string | undefined {
+  const table = getGlyphNameTable();
+  const known = table.get(name);
+  if (known !== undefined) return known;
+
+  // Single letters name themselves
+  if (/^[A-Za-z]$/.test(name)) return name;
+
+  // Strip variant suffixes like ".sc" or ".alt"
+  const dot = name.indexOf(".");
+  if (dot > 0) return glyphNameToUnicode(name.substring(0, dot));
+
+  // Ligatures are written as components joined by "_"
+  if (name.includes("_")) {
+    const parts = name.split("_").map(glyphNameToUnicode);
+    return parts.every((p) => p !== undefined) ? parts.join("") : undefined;
+  }
+
+  // "uniXXXX" (possibly several code units) and "uXXXX[XX]"
+  let match = name.match(/^uni((?:[0-9A-F]{4})+)$/);
+  if (match) {
+    const units = match[1].match(/.{4}/g)!.map((h) => parseInt(h, 16));
+    return String.fromCharCode(...units);
+  }
+  match = name.match(/^u([0-9A-F]{4,6})$/);
+  if (match) {
+    const codePoint = parseInt(match[1], 16);
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : undefined;
+  }
+
+  return undefined;
+}
+
+// ============================================================================
+// CMaps
+// ============================================================================
+
+/**
+ * Decode a UTF-16BE byte sequence (used for CMap destinations)
+ */
+function decodeUTF16BE(bytes: Uint8Array): string {
+  let result = "";
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    result += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+  }
+  return result;
+}
+
+function bytesToCode(bytes: Uint8Array): number {
+  let code = 0;
+  for (const byte of bytes) code = code * 256 + byte;
+  return code;
+}
+
+/**
+ * Parse a CMap stream: codespace ranges plus bfchar/bfrange mappings
+ */
+function parseCMap(data: Uint8Array): {
+  codespace: CodespaceRange[];
+  mapping: Map<number, string>;
+} {
+  const codespace: CodespaceRange[] = [];
+  const mapping = new Map<number, string>();
+  const cursor: PDFCursor = { data, pos: 0 };
+  const operands: (PDFValue | undefined)[] = [];
+  let section = "";
+
+  while (true) {
+    const token = readToken(cursor);
+    if (token === undefined) break;
+
+    if (!isKeyword(token)) {
+      if (section) operands.push(token);
+      continue;
+    }
+
+    switch (token.keyword) {
+      case "begincodespacerange":
+      case "beginbfchar":
+      case "beginbfrange":
+        section = token.keyword;
+        operands.length = 0;
+        break;
+
+      case "endcodespacerange":
+        for (let i = 0; i + 1 < operands.length; i += 2) {
+          const low = operands[i];
+          const high = operands[i + 1];
+          if (isString(low) && isString(high)) {
+            codespace.push({
+              low: bytesToCode(low.bytes),
+              high: bytesToCode(high.bytes),
+              length: low.bytes.length,
+            });
+          }
+        }
+        section = "";
+        break;
+
+      case "endbfchar":
+        for (let i = 0; i + 1 < operands.length; i += 2) {
+          const src = operands[i];
+          const dst = operands[i + 1];
+          if (!isString(src)) continue;
+          if (isString(dst)) {
+            mapping.set(bytesToCode(src.bytes), decodeUTF16BE(dst.bytes));
+          } else if (isName(dst)) {
+            const text = glyphNameToUnicode(dst.name);
+            if (text !== undefined) mapping.set(bytesToCode(src.bytes), text);
+          }
+        }
+        section = "";
+        break;
+
+      case "endbfrange":
+        for (let i = 0; i + 2 < operands.length; i += 3) {
+          const low = operands[i];
+          const high = operands[i + 1];
+          const dst = operands[i + 2];
+          if (!isString(low) || !isString(high)) continue;
+
+          const start = bytesToCode(low.bytes);
+          const end = bytesToCode(high.bytes);
+
+          if (Array.isArray(dst)) {
+            // One destination string per code
+            dst.forEach((item, offset) => {
+              if (isString(item) && start + offset <= end) {
+                mapping.set(start + offset, decodeUTF16BE(item.bytes));
+              }
+            });
+          } else if (isString(dst) && end - start < 0x10000) {
+            // Destinations increment in their last code unit
+            const base = decodeUTF16BE(dst.bytes);
+            const prefix = base.slice(0, -1);
+            const lastUnit = base.charCodeAt(base.length - 1);
+            for (let code = start; code <= end; code++) {
+              mapping.set(
+                code,
+                prefix + String.fromCharCode(lastUnit + (code - start)),
+              );
+            }
+          }
+        }
+        section = "";
+        break;
+    }
+  }
+
+  return { codespace, mapping };
+}
+
+// ============================================================================
+// Fonts
+// ============================================================================
+
+const fontCache = new WeakMap<PDFDict, PDFFont>();
+
+/**
+ * Load the decoding information for a font dictionary
+ */
+export function loadFont(doc: PDFDocument, fontDict: PDFDict): PDFFont {
+  const cached = fontCache.get(fontDict);
+  if (cached) return cached;
+
+  const subtype = dictGetName(doc, fontDict, "Subtype");
+  const font: PDFFont = {
+    composite: subtype === "Type0",
+    codespace: [],
+    toUnicode: null,
+    encoding: null,
+    ucs2: false,
+    widths: new Map(),
+    defaultWidth: 0,
+    widthScale: 0.001,
+  };
+
+  // ToUnicode takes precedence over everything else when present
+  const toUnicode = dictGet(doc, fontDict, "ToUnicode");
+  if (isStream(toUnicode)) {
+    try {
+      const cmap = parseCMap(decodeStream(doc, toUnicode));
+      font.toUnicode = cmap.mapping;
+      if (font.composite) font.codespace = cmap.codespace;
+    } catch (error) {
+      console.warn("Could not read ToUnicode CMap:", error);
+    }
+  }
+
+  if (font.composite) {
+    // The Encoding CMap decides how bytes split into codes
+    const encoding = dictGet(doc, fontDict, "Encoding");
+    if (isStream(encoding)) {
+      try {
+        const cmap = parseCMap(decodeStream(doc, encoding));
+        if (cmap.codespace.length > 0) font.codespace = cmap.codespace;
+      } catch (error) {
+        console.warn("Could not read font encoding CMap:", error);
+      }
+    } else if (isName(encoding)) {
+      font.ucs2 = /^Uni.*-(UCS2|UTF16)-[HV]$/.test(encoding.name);
+      if (/^Identity-[HV]$/.test(encoding.name) || font.ucs2) {
+        font.codespace = [{ low: 0, high: 0xffff, length: 2 }];
+      }
+    }
+  } else {
+    font.encoding = buildSimpleEncoding(doc, fontDict, subtype);
+  }
+
+  loadWidths(doc, fontDict, font, subtype);
+
+  fontCache.set(fontDict, font);
+  return font;
+}
+
+/**
+ * Read glyph widths: /FirstChar + /Widths for simple fonts, /DW + /W for
+ * the descendant CID font of a Type0 font
+ */
+function loadWidths(
+  doc: PDFDocument,
+  fontDict: PDFDict,
+  font: PDFFont,
+  subtype: string | undefined,
+): void {
+  if (font.composite) {
+    const descendants = dictGet(doc, fontDict, "DescendantFonts");
+    const cidFont = Array.isArray(descendants)
+      ? resolve(doc, descendants[0])
+      : null;
+
+    font.defaultWidth = dictGetNumber(doc, cidFont, "DW") ?? 1000;
+
+    // /W [c [w1 w2 ...] cFirst cLast w ...]
+    const w = dictGet(doc, cidFont, "W");
+    if (Array.isArray(w)) {
+      let i = 0;
+      while (i < w.length) {
+        const first = resolve(doc, w[i]);
+        const next = resolve(doc, w[i + 1]);
+        if (typeof first !== "number") break;
+
+        if (Array.isArray(next)) {
+          next.forEach((width, offset) => {
+            const value = resolve(doc, width);
+            if (typeof value === "number") font.widths.set(first + offset, value);
+          });
+          i += 2;
+        } else {
+          const width = resolve(doc, w[i + 2]);
+          if (typeof next !== "number" || typeof width !== "number") break;
+          for (let code = first; code <= next && code - first < 0x10000; code++) {
+            font.widths.set(code, width);
+          }
+          i += 3;
+        }
+      }
+    }
+    return;
+  }
+
+  const firstChar = dictGetNumber(doc, fontDict, "FirstChar") ?? 0;
+  const widths = dictGet(doc, fontDict, "Widths");
+  if (Array.isArray(widths)) {
+    widths.forEach((width, offset) => {
+      const value = resolve(doc, width);
+      if (typeof value === "number") font.widths.set(firstChar + offset, value);
+    });
+  }
+
+  // Type3 glyphs are measured in their own FontMatrix units
+  const fontMatrix = dictGet(doc, fontDict, "FontMatrix");
+  if (subtype === "Type3" && Array.isArray(fontMatrix)) {
+    const scale = resolve(doc, fontMatrix[0]);
+    if (typeof scale === "number") font.widthScale = Math.abs(scale);
+  }
+
+  // Standard 14 fonts often come without widths: use an average advance
+  const descriptor = dictGetDict(doc, fontDict, "FontDescriptor");
+  const baseFont = dictGetName(doc, fontDict, "BaseFont") || "";
+  font.defaultWidth =
+    dictGetNumber(doc, descriptor, "MissingWidth") ||
+    (/Courier/i.test(baseFont) ? 600 : 500);
+}
+
+/**
+ * Build the code -> Unicode table for a simple (single-byte) font
+ */
+function buildSimpleEncoding(
+  doc: PDFDocument,
+  fontDict: PDFDict,
+  subtype: string | undefined,
+): string[] {
+  const encoding = dictGet(doc, fontDict, "Encoding");
+
+  // Fonts without an explicit encoding use their built-in one, which for
+  // Type1 text fonts is almost always StandardEncoding
+  let baseName = subtype === "TrueType" ? "WinAnsiEncoding" : "StandardEncoding";
+  if (isName(encoding)) {
+    baseName = encoding.name;
+  } else if (isDict(encoding)) {
+    baseName = dictGetName(doc, encoding, "BaseEncoding") || baseName;
+  }
+
+  const table = buildEncoding(baseName);
+
+  // /Differences [code /name /name ... code /name ...]
+  const differences = isDict(encoding)
+    ? dictGet(doc, encoding, "Differences")
+    : null;
+  if (Array.isArray(differences)) {
+    let code = 0;
+    for (const item of differences) {
+      const value = resolve(doc, item);
+      if (typeof value === "number") {
+        code = value;
+      } else if (isName(value) && code < 256) {
+        const text = glyphNameToUnicode(value.name);
+        if (text !== undefined) table[code] = text;
+        code++;
+      }
+    }
+  }
+
+  return table;
+}
+
+/**
+ * Split a string's bytes into character codes for this font
+ */
+function readCode(font: PDFFont, bytes: Uint8Array, pos: number): [number, number] {
+  if (!font.composite) return [bytes[pos], 1];
+
+  if (font.codespace.length > 0) {
+    let code = 0;
+    for (let length = 1; length <= 4 && pos + length <= bytes.length; length++) {
+      code = code * 256 + bytes[pos + length - 1];
+      for (const range of font.codespace) {
+        if (range.length === length && code >= range.low && code <= range.high) {
+          return [code, length];
+        }
+      }
+    }
+  }
+
+  // Default to two-byte codes, the common case for CID fonts
+  if (pos + 1 < bytes.length) {
+    return [(bytes[pos] << 8) | bytes[pos + 1], 2];
+  }
+  return [bytes[pos], 1];
+}
+
+/**
+ * Decode a text string's bytes into glyphs with their Unicode text
+ */
+export function decodeGlyphs(font: PDFFont, bytes: Uint8Array): PDFGlyph[] {
+  const glyphs: PDFGlyph[] = [];
+  let pos = 0;
+
+  while (pos < bytes.length) {
+    const [code, length] = readCode(font, bytes, pos);
+    pos += length;
+
+    let text = font.toUnicode?.get(code);
+    if (text === undefined) {
+      if (font.encoding) {
+        text = font.encoding[code] ?? "";
+      } else if (font.ucs2) {
+        text = String.fromCharCode(code);
+      } else {
+        // CIDs without a ToUnicode map can't be interpreted
+        text = "";
+      }
+    }
+
+    glyphs.push({
+      code,
+      text: expandLigatures(text),
+      width: (font.widths.get(code) ?? font.defaultWidth) * font.widthScale,
+      isWordSpace: length === 1 && code === 32,
+    });
+  }
+
+  return glyphs;
+}
+
+/**
+ * Replace typographic ligatures (ﬁ, ﬂ, ...) with their letters
+ */
+function expandLigatures(text: string): string {
+  return text.replace(/[\uFB00-\uFB06]/g, (ligature) => LIGATURES[ligature] || ligature);
+}
+
+/**
+ * Look up a font resource by name (/F1 etc.)
+ */
+export function getFontResource(
+  doc: PDFDocument,
+  resources: PDFDict | null,
+  name: string,
+): PDFFont | null {
+  const fonts = dictGetDict(doc, resources, "Font");
+  const fontDict = dictGet(doc, fonts, name);
+  return isDict(fontDict) ? loadFont(doc, fontDict) : null;
+}
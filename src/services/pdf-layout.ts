@@ -0,0 +1,332 @@
+// PDF Layout Service
+// Rebuilds words, lines, paragraphs and column order from positioned text runs
+
+import { PDFTextRun } from "./pdf-content";
+
+export interface PDFLine {
+  text: string;
+  x: number;
+  y: number; // Baseline, in page space (grows upwards)
+  endX: number;
+  fontSize: number;
+  paragraphStart: boolean;
+}
+
+interface Fragment {
+  runs: PDFTextRun[];
+  x: number;
+  endX: number;
+  y: number;
+  fontSize: number;
+  column: number; // -1 for fragments spanning several columns
+}
+
+// Gaps wider than this (in ems) between runs become word spaces
+const WORD_GAP_RATIO = 0.15;
+// Gaps wider than this split a line into separate fragments
+const FRAGMENT_GAP_RATIO = 1.0;
+// Baselines closer than this (in ems) belong to the same line
+const BASELINE_TOLERANCE = 0.5;
+// Share of fragments allowed to cross a gutter (e.g. headings, titles)
+const GUTTER_ALLOWANCE = 0.05;
+// Vertical gaps this many times the usual leading start a new paragraph
+const PARAGRAPH_GAP_RATIO = 1.4;
+
+/**
+ * Lay out a page's text runs as lines in reading order
+ */
+export function layoutPage(runs: PDFTextRun[]): PDFLine[] {
+  const usable = runs.filter(
+    (run) => run.fontSize > 0 && Number.isFinite(run.x) && Number.isFinite(run.y),
+  );
+  if (usable.length === 0) return [];
+
+  const fragments = buildFragments(usable);
+  const gutters = findGutters(fragments);
+  assignColumns(fragments, gutters);
+
+  return markParagraphs(orderLines(fragments));
+}
+
+/**
+ * Join lines into page text: "\n" between lines, "\n\n" between paragraphs
+ */
+export function linesToText(lines: PDFLine[]): string {
+  return lines
+    .map((line, i) => {
+      if (i === 0) return line.text;
+      return (line.paragraphStart ? "\n\n" : "\n") + line.text;
+    })
+    .join("");
+}
+
+/**
+ * Group runs into baseline rows, then split rows at wide horizontal gaps
+ */
+function buildFragments(runs: PDFTextRun[]): Fragment[] {
+  const sorted = [...runs].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: PDFTextRun[][] = [];
+  let rowY = Infinity;
+
+  for (const run of sorted) {
+    const row = rows[rows.length - 1];
+    if (row && rowY - run.y <= BASELINE_TOLERANCE * run.fontSize) {
+      row.push(run);
+    } else {
+      rows.push([run]);
+      rowY = run.y;
+    }
+  }
+
+  const fragments: Fragment[] = [];
+  for (const row of rows) {
+    row.sort((a, b) => a.x - b.x);
+
+    let current: PDFTextRun[] = [];
+    for (const run of row) {
+      const previous = current[current.length - 1];
+
+      // Skip text drawn twice for a fake bold effect
+      if (
+        previous &&
+        previous.text === run.text &&
+        Math.abs(previous.x - run.x) < run.fontSize * 0.2
+      ) {
+        continue;
+      }
+
+      if (previous && run.x - previous.endX > FRAGMENT_GAP_RATIO * run.fontSize) {
+        fragments.push(makeFragment(current));
+        current = [];
+      }
+      current.push(run);
+    }
+    if (current.length > 0) fragments.push(makeFragment(current));
+  }
+
+  return fragments;
+}
+
+function makeFragment(runs: PDFTextRun[]): Fragment {
+  return {
+    runs,
+    x: Math.min(...runs.map((r) => r.x)),
+    endX: Math.max(...runs.map((r) => r.endX)),
+    y: Math.max(...runs.map((r) => r.y)),
+    fontSize: Math.max(...runs.map((r) => r.fontSize)),
+    column: 0,
+  };
+}
+
+/**
+ * Find vertical gutters: x ranges (at least one em wide) that almost no
+ * fragment covers, with text on both sides
+ */
+function findGutters(fragments: Fragment[]): [number, number][] {
+  const minX = Math.floor(Math.min(...fragments.map((f) => f.x)));
+  const maxX = Math.ceil(Math.max(...fragments.map((f) => f.endX)));
+  const width = maxX - minX;
+  if (width <= 0 || width > 10000) return [];
+
+  const coverage = new Array<number>(width + 1).fill(0);
+  for (const fragment of fragments) {
+    const start = Math.max(0, Math.floor(fragment.x) - minX);
+    const end = Math.min(width, Math.ceil(fragment.endX) - minX);
+    for (let i = start; i <= end; i++) coverage[i]++;
+  }
+
+  const allowance = Math.floor(fragments.length * GUTTER_ALLOWANCE);
+  const bodySize = medianFontSize(fragments);
+  const gutters: [number, number][] = [];
+  let gapStart = -1;
+
+  for (let i = 0; i <= width; i++) {
+    const empty = coverage[i] <= allowance;
+    if (empty && gapStart < 0) {
+      gapStart = i;
+    } else if (!empty && gapStart >= 0) {
+      // Gaps touching the left edge aren't between columns
+      if (gapStart > 0 && i - gapStart >= bodySize) {
+        gutters.push([minX + gapStart, minX + i]);
+      }
+      gapStart = -1;
+    }
+  }
+
+  return gutters;
+}
+
+function assignColumns(fragments: Fragment[], gutters: [number, number][]): void {
+  for (const fragment of fragments) {
+    const spans = gutters.some(
+      ([start, end]) => fragment.x < start - 1 && fragment.endX > end + 1,
+    );
+    if (spans) {
+      fragment.column = -1;
+      continue;
+    }
+
+    const center = (fragment.x + fragment.endX) / 2;
+    fragment.column = gutters.filter(([, end]) => end <= center).length;
+  }
+}
+
+/**
+ * Order fragments for reading: top to bottom, finishing each column before
+ * the next one, with spanning fragments (titles) breaking the page into bands
+ */
+function orderLines(fragments: Fragment[]): { line: PDFLine; column: number }[] {
+  const sorted = [...fragments].sort((a, b) => b.y - a.y || a.x - b.x);
+  const ordered: { line: PDFLine; column: number }[] = [];
+  let band: Fragment[] = [];
+
+  const flushBand = () => {
+    const columns = Array.from(new Set(band.map((f) => f.column))).sort(
+      (a, b) => a - b,
+    );
+    for (const column of columns) {
+      for (const line of mergeRows(band.filter((f) => f.column === column))) {
+        ordered.push({ line, column });
+      }
+    }
+    band = [];
+  };
+
+  for (const fragment of sorted) {
+    if (fragment.column === -1) {
+      flushBand();
+      for (const line of mergeRows([fragment])) {
+        ordered.push({ line, column: -1 });
+      }
+    } else {
+      band.push(fragment);
+    }
+  }
+  flushBand();
+
+  return ordered;
+}
+
+/**
+ * Merge fragments of one column that share a baseline into lines
+ */
+function mergeRows(fragments: Fragment[]): PDFLine[] {
+  const lines: PDFLine[] = [];
+  let row: Fragment[] = [];
+
+  const flushRow = () => {
+    if (row.length === 0) return;
+    const runs = row
+      .flatMap((f) => f.runs)
+      .sort((a, b) => a.x - b.x);
+    const text = joinRuns(runs).trim();
+    if (text.length > 0) {
+      lines.push({
+        text,
+        x: Math.min(...row.map((f) => f.x)),
+        y: Math.max(...row.map((f) => f.y)),
+        endX: Math.max(...row.map((f) => f.endX)),
+        fontSize: Math.max(...row.map((f) => f.fontSize)),
+        paragraphStart: false,
+      });
+    }
+    row = [];
+  };
+
+  for (const fragment of fragments) {
+    const first = row[0];
+    if (first && first.y - fragment.y > BASELINE_TOLERANCE * fragment.fontSize) {
+      flushRow();
+    }
+    row.push(fragment);
+  }
+  flushRow();
+
+  return lines;
+}
+
+/**
+ * Join runs on one line, adding word spaces where glyphs leave a gap
+ */
+function joinRuns(runs: PDFTextRun[]): string {
+  let text = "";
+  let previous: PDFTextRun | null = null;
+
+  for (const run of runs) {
+    if (previous) {
+      const gap = run.x - previous.endX;
+      const hasSpace = /\s$/.test(text) || /^\s/.test(run.text);
+      if (!hasSpace && gap > WORD_GAP_RATIO * run.fontSize) {
+        text += " ";
+      }
+    }
+    text += run.text;
+    previous = run;
+  }
+
+  return text;
+}
+
+/**
+ * Flag lines that start a paragraph: after a large vertical gap, a change in
+ * font size, a first-line indent, or a short line ending a sentence
+ */
+function markParagraphs(ordered: { line: PDFLine; column: number }[]): PDFLine[] {
+  // Column extents, to recognise indents and short last lines
+  const extents = new Map<number, { left: number; right: number }>();
+  for (const { line, column } of ordered) {
+    const extent = extents.get(column);
+    extents.set(column, {
+      left: Math.min(extent?.left ?? Infinity, line.x),
+      right: Math.max(extent?.right ?? -Infinity, line.endX),
+    });
+  }
+
+  // Usual distance between consecutive baselines in the same column
+  const gaps: number[] = [];
+  for (let i = 1; i < ordered.length; i++) {
+    const gap = ordered[i - 1].line.y - ordered[i].line.y;
+    if (ordered[i].column === ordered[i - 1].column && gap > 0) gaps.push(gap);
+  }
+  gaps.sort((a, b) => a - b);
+  const leading = gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : 0;
+
+  return ordered.map(({ line, column }, i) => {
+    if (i === 0) return line;
+
+    const previous = ordered[i - 1];
+    const prevLine = previous.line;
+    const extent = extents.get(column)!;
+    const em = line.fontSize;
+
+    // Spanning lines (titles) stand on their own
+    if (column === -1 || previous.column === -1) {
+      return { ...line, paragraphStart: true };
+    }
+
+    // Text flowing into the next column continues the paragraph
+    if (column !== previous.column) {
+      return { ...line, paragraphStart: line.x > extent.left + 0.8 * em };
+    }
+
+    const gap = prevLine.y - line.y;
+    const sizeChanged = Math.abs(line.fontSize - prevLine.fontSize) > 0.15 * em;
+    const indented =
+      line.x > extent.left + 0.8 * em && prevLine.x <= extent.left + 0.3 * em;
+    const previousEndedShort =
+      prevLine.endX < extent.right - 2 * em && /[.!?:"”»]$/.test(prevLine.text);
+
+    const paragraphStart =
+      (leading > 0 && gap > leading * PARAGRAPH_GAP_RATIO) ||
+      sizeChanged ||
+      indented ||
+      previousEndedShort;
+
+    return { ...line, paragraphStart };
+  });
+}
+
+function medianFontSize(fragments: Fragment[]): number {
+  const sizes = fragments.map((f) => f.fontSize).sort((a, b) => a - b);
+  return sizes[Math.floor(sizes.length / 2)] || 0;
+}
@@ -0,0 +1,1046 @@
+// PDF Objects Service
+// Low-level PDF object model: lexer, cross-reference table and stream decoding
+
+import {
+  FilterParams,
+  applyFilters,
+  hexDigitValue,
+  isWhitespaceByte,
+} from "./pdf-filters";
+
+export interface PDFName {
+  type: "name";
+  name: string;
+}
+
+export interface PDFString {
+  type: "string";
+  bytes: Uint8Array;
+}
+
+export interface PDFRef {
+  type: "ref";
+  num: number;
+  gen: number;
+}
+
+export interface PDFDict {
+  type: "dict";
+  entries: Map<string, PDFValue>;
+}
+
+export interface PDFStream {
+  type: "stream";
+  dict: PDFDict;
+  data: Uint8Array; // Raw (still encoded) stream bytes
+}
+
+export type PDFValue =
+  | null
+  | boolean
+  | number
+  | PDFName
+  | PDFString
+  | PDFRef
+  | PDFDict
+  | PDFStream
+  | PDFValue[];
+
+/**
+ * A bare keyword in the input, e.g. "obj", "R" or a content stream operator
+ */
+export interface PDFKeyword {
+  type: "keyword";
+  keyword: string;
+}
+
+type XRefEntry =
+  | { type: "offset"; offset: number }
+  | { type: "compressed"; streamNum: number; index: number };
+
+export interface PDFDocument {
+  data: Uint8Array;
+  trailer: PDFDict;
+  xref: Map<number, XRefEntry>;
+  cache: Map<number, PDFValue>;
+}
+
+/**
+ * Read position over a byte buffer
+ */
+export interface PDFCursor {
+  data: Uint8Array;
+  pos: number;
+}
+
+const DELIMITERS = new Set("()<>[]{}/%".split("").map((c) => c.charCodeAt(0)));
+
+// ============================================================================
+// Lexer
+// ============================================================================
+
+/**
+ * Skip whitespace and comments
+ */
+function skipWhitespace(cursor: PDFCursor): void {
+  const { data } = cursor;
+  while (cursor.pos < data.length) {
+    const byte = data[cursor.pos];
+    if (isWhitespaceByte(byte)) {
+      cursor.pos++;
+    } else if (byte === 0x25) {
+      // "%" comment runs to end of line
+      while (
+        cursor.pos < data.length &&
+        data[cursor.pos] !== 0x0a &&
+        data[cursor.pos] !== 0x0d
+      ) {
+        cursor.pos++;
+      }
+    } else {
+      break;
+    }
+  }
+}
+
+function isRegularByte(byte: number): boolean {
+  return !isWhitespaceByte(byte) && !DELIMITERS.has(byte);
+}
+
+/**
+ * Read a run of regular characters (keyword or number)
+ */
+function readRegular(cursor: PDFCursor): string {
+  const { data } = cursor;
+  let result = "";
+  while (cursor.pos < data.length && isRegularByte(data[cursor.pos])) {
+    result += String.fromCharCode(data[cursor.pos++]);
+  }
+  return result;
+}
+
+/**
+ * Read a name after its leading "/", decoding #xx escapes
+ */
+function readName(cursor: PDFCursor): PDFName {
+  const { data } = cursor;
+  cursor.pos++; // Skip "/"
+  let name = "";
+  while (cursor.pos < data.length && isRegularByte(data[cursor.pos])) {
+    const byte = data[cursor.pos++];
+    if (byte === 0x23 && cursor.pos + 1 < data.length) {
+      const high = hexDigitValue(data[cursor.pos]);
+      const low = hexDigitValue(data[cursor.pos + 1]);
+      if (high >= 0 && low >= 0) {
+        name += String.fromCharCode((high << 4) | low);
+        cursor.pos += 2;
+        continue;
+      }
+    }
+    name += String.fromCharCode(byte);
+  }
+  return { type: "name", name };
+}
+
+/**
+ * Read a literal string "( ... )" with nested parentheses and escapes
+ */
+function readLiteralString(cursor: PDFCursor): PDFString {
+  const { data } = cursor;
+  const bytes: number[] = [];
+  let depth = 1;
+  cursor.pos++; // Skip "("
+
+  while (cursor.pos < data.length) {
+    let byte = data[cursor.pos++];
+
+    if (byte === 0x28) {
+      depth++;
+    } else if (byte === 0x29) {
+      depth--;
+      if (depth === 0) break;
+    } else if (byte === 0x5c) {
+      // Backslash escape
+      byte = data[cursor.pos++];
+      switch (byte) {
+        case 0x6e: // \n
+          bytes.push(0x0a);
+          continue;
+        case 0x72: // \r
+          bytes.push(0x0d);
+          continue;
+        case 0x74: // \t
+          bytes.push(0x09);
+          continue;
+        case 0x62: // \b
+          bytes.push(0x08);
+          continue;
+        case 0x66: // \f
+          bytes.push(0x0c);
+          continue;
+        case 0x0d: // Line continuation
+          if (data[cursor.pos] === 0x0a) cursor.pos++;
+          continue;
+        case 0x0a:
+          continue;
+      }
+
+      if (byte >= 0x30 && byte <= 0x37) {
+        // Up to three octal digits
+        let value = byte - 0x30;
+        for (let i = 0; i < 2; i++) {
+          const next = data[cursor.pos];
+          if (next < 0x30 || next > 0x37) break;
+          value = value * 8 + (next - 0x30);
+          cursor.pos++;
+        }
+        bytes.push(value & 0xff);
+        continue;
+      }
+      // Any other escaped character stands for itself: \( \) \\
+    }
+
+    bytes.push(byte);
+  }
+
+  return { type: "string", bytes: Uint8Array.from(bytes) };
+}
+
+/**
+ * Read a hex string "< ... >"
+ */
+function readHexString(cursor: PDFCursor): PDFString {
+  const { data } = cursor;
+  const bytes: number[] = [];
+  let high = -1;
+  cursor.pos++; // Skip "<"
+
+  while (cursor.pos < data.length) {
+    const byte = data[cursor.pos++];
+    if (byte === 0x3e) break;
+
+    const digit = hexDigitValue(byte);
+    if (digit < 0) continue;
+
+    if (high < 0) {
+      high = digit;
+    } else {
+      bytes.push((high << 4) | digit);
+      high = -1;
+    }
+  }
+  if (high >= 0) bytes.push(high << 4);
+
+  return { type: "string", bytes: Uint8Array.from(bytes) };
+}
+
+/**
+ * Read the next value or keyword from the cursor
+ * Returns undefined at end of input
+ */
+export function readToken(
+  cursor: PDFCursor,
+): PDFValue | PDFKeyword | undefined {
+  skipWhitespace(cursor);
+  const { data } = cursor;
+  if (cursor.pos >= data.length) return undefined;
+
+  const byte = data[cursor.pos];
+
+  switch (byte) {
+    case 0x2f: // "/"
+      return readName(cursor);
+    case 0x28: // "("
+      return readLiteralString(cursor);
+    case 0x3c: // "<"
+      if (data[cursor.pos + 1] === 0x3c) {
+        cursor.pos += 2;
+        return readDictBody(cursor);
+      }
+      return readHexString(cursor);
+    case 0x5b: // "["
+      cursor.pos++;
+      return readArrayBody(cursor);
+    case 0x5d: // "]"
+    case 0x7b: // "{"
+    case 0x7d: // "}"
+      cursor.pos++;
+      return { type: "keyword", keyword: String.fromCharCode(byte) };
+    case 0x3e: // ">" (stray ">>")
+      cursor.pos += data[cursor.pos + 1] === 0x3e ? 2 : 1;
+      return { type: "keyword", keyword: ">>" };
+    case 0x29: // Stray ")"
+      cursor.pos++;
+      return { type: "keyword", keyword: ")" };
+  }
+
+  const word = readRegular(cursor);
+  if (word.length === 0) {
+    // Unknown byte: skip it so we always make progress
+    cursor.pos++;
+    return { type: "keyword", keyword: String.fromCharCode(byte) };
+  }
+
+  if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+    const value = parseFloat(word);
+    if (Number.isInteger(value) && /^\+?\d+$/.test(word)) {
+      return readPossibleRef(cursor, value);
+    }
+    return value;
+  }
+
+  switch (word) {
+    case "true":
+      return true;
+    case "false":
+      return false;
+    case "null":
+      return null;
+  }
+
+  return { type: "keyword", keyword: word };
+}
+
+/**
+ * After an integer, look ahead for "gen R" to form an indirect reference
+ */
+function readPossibleRef(cursor: PDFCursor, num: number): PDFValue {
+  const start = cursor.pos;
+
+  skipWhitespace(cursor);
+  const gen = readRegular(cursor);
+  if (/^\d+$/.test(gen)) {
+    skipWhitespace(cursor);
+    const keyword = readRegular(cursor);
+    if (keyword === "R") {
+      return { type: "ref", num, gen: parseInt(gen, 10) };
+    }
+  }
+
+  cursor.pos = start;
+  return num;
+}
+
+function readArrayBody(cursor: PDFCursor): PDFValue[] {
+  const items: PDFValue[] = [];
+  while (true) {
+    const token = readToken(cursor);
+    if (token === undefined) break;
+    if (isKeyword(token)) {
+      if (token.keyword === "]") break;
+      continue; // Ignore stray keywords inside arrays
+    }
+    items.push(token);
+  }
+  return items;
+}
+
+function readDictBody(cursor: PDFCursor): PDFDict {
+  const entries = new Map<string, PDFValue>();
+  while (true) {
+    const key = readToken(cursor);
+    if (key === undefined) break;
+    if (isKeyword(key)) {
+      if (key.keyword === ">>") break;
+      continue;
+    }
+    if (!isName(key)) continue;
+
+    const value = readToken(cursor);
+    if (value === undefined) break;
+    if (isKeyword(value)) {
+      if (value.keyword === ">>") break;
+      continue;
+    }
+    entries.set(key.name, value);
+  }
+  return { type: "dict", entries };
+}
+
+// ============================================================================
+// Type guards and accessors
+// ============================================================================
+
+export function isKeyword(
+  value: PDFValue | PDFKeyword | undefined,
+  keyword?: string,
+): value is PDFKeyword {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    value.type === "keyword" &&
+    (keyword === undefined || value.keyword === keyword)
+  );
+}
+
+export function isName(
+  value: PDFValue | PDFKeyword | undefined,
+  name?: string,
+): value is PDFName {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    value.type === "name" &&
+    (name === undefined || value.name === name)
+  );
+}
+
+export function isString(
+  value: PDFValue | PDFKeyword | undefined,
+): value is PDFString {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    value.type === "string"
+  );
+}
+
+export function isRef(
+  value: PDFValue | PDFKeyword | undefined,
+): value is PDFRef {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    value.type === "ref"
+  );
+}
+
+export function isDict(
+  value: PDFValue | PDFKeyword | undefined,
+): value is PDFDict {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    value.type === "dict"
+  );
+}
+
+export function isStream(
+  value: PDFValue | PDFKeyword | undefined,
+): value is PDFStream {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    value.type === "stream"
+  );
+}
+
+/**
+ * Follow indirect references until we reach a direct value
+ */
+export function resolve(doc: PDFDocument, value: PDFValue | undefined): PDFValue {
+  let current = value ?? null;
+  for (let depth = 0; isRef(current) && depth < 16; depth++) {
+    current = getObject(doc, current.num);
+  }
+  return isRef(current) ? null : current;
+}
+
+/**
+ * Look up a dictionary key (works on streams too) and resolve it
+ */
+export function dictGet(
+  doc: PDFDocument,
+  dict: PDFValue | undefined,
+  key: string,
+): PDFValue {
+  const target = isStream(dict) ? dict.dict : dict;
+  if (!isDict(target)) return null;
+  return resolve(doc, target.entries.get(key));
+}
+
+/**
+ * Look up a dictionary key that should hold a dictionary
+ */
+export function dictGetDict(
+  doc: PDFDocument,
+  dict: PDFValue | undefined,
+  key: string,
+): PDFDict | null {
+  const value = dictGet(doc, dict, key);
+  return isDict(value) ? value : null;
+}
+
+/**
+ * Look up a dictionary key that should hold a number
+ */
+export function dictGetNumber(
+  doc: PDFDocument,
+  dict: PDFValue | undefined,
+  key: string,
+): number | undefined {
+  const value = dictGet(doc, dict, key);
+  return typeof value === "number" ? value : undefined;
+}
+
+/**
+ * Look up a dictionary key that should hold a name
+ */
+export function dictGetName(
+  doc: PDFDocument,
+  dict: PDFValue | undefined,
+  key: string,
+): string | undefined {
+  const value = dictGet(doc, dict, key);
+  return isName(value) ? value.name : undefined;
+}
+
+// ============================================================================
+// Document loading
+// ============================================================================
+
+/**
+ * Load the cross-reference table and trailer of a PDF
+ * Falls back to rebuilding the table by scanning when it is damaged
+ */
+export function loadPDFDocument(data: Uint8Array): PDFDocument {
+  const doc: PDFDocument = {
+    data,
+    trailer: { type: "dict", entries: new Map() },
+    xref: new Map(),
+    cache: new Map(),
+  };
+
+  try {
+    readXRefChain(doc);
+  } catch (error) {
+    console.warn("Broken PDF cross-reference table, rebuilding:", error);
+    doc.xref.clear();
+    doc.trailer = { type: "dict", entries: new Map() };
+  }
+
+  if (!isDict(dictGet(doc, doc.trailer, "Root"))) {
+    doc.cache.clear();
+    rebuildXRef(doc);
+  }
+
+  if (!isDict(dictGet(doc, doc.trailer, "Root"))) {
+    throw new Error("Invalid PDF: Missing document catalog");
+  }
+
+  if (doc.trailer.entries.has("Encrypt")) {
+    throw new Error("This PDF is encrypted and cannot be read.");
+  }
+
+  return doc;
+}
+
+/**
+ * Follow startxref and every /Prev section, newest first
+ */
+function readXRefChain(doc: PDFDocument): void {
+  const startxref = lastIndexOfBytes(doc.data, "startxref");
+  if (startxref < 0) throw new Error("Missing startxref");
+
+  const cursor: PDFCursor = { data: doc.data, pos: startxref + 9 };
+  let offset = readToken(cursor);
+  const visited = new Set<number>();
+  const trailers: PDFDict[] = [];
+
+  while (typeof offset === "number" && !visited.has(offset)) {
+    visited.add(offset);
+    const trailer = readXRefSection(doc, offset);
+    trailers.push(trailer);
+
+    // Hybrid files keep compressed objects in a separate xref stream
+    const xrefStm = trailer.entries.get("XRefStm");
+    if (typeof xrefStm === "number" && !visited.has(xrefStm)) {
+      visited.add(xrefStm);
+      readXRefSection(doc, xrefStm);
+    }
+
+    offset = trailer.entries.get("Prev");
+  }
+
+  // Newest trailer wins, but keep keys only present in older ones
+  const merged = new Map<string, PDFValue>();
+  for (let i = trailers.length - 1; i >= 0; i--) {
+    trailers[i].entries.forEach((value, key) => merged.set(key, value));
+  }
+  doc.trailer = { type: "dict", entries: merged };
+}
+
+/**
+ * Read one xref table or xref stream, returning its trailer dictionary
+ */
+function readXRefSection(doc: PDFDocument, offset: number): PDFDict {
+  const cursor: PDFCursor = { data: doc.data, pos: offset };
+  const first = readToken(cursor);
+
+  if (isKeyword(first, "xref")) {
+    return readXRefTable(doc, cursor);
+  }
+
+  // Otherwise this should be "N G obj << /Type /XRef ... >> stream"
+  cursor.pos = offset;
+  const object = readIndirectObject(doc, cursor);
+  if (!isStream(object) || dictGetName(doc, object, "Type") !== "XRef") {
+    throw new Error(`No xref section at offset ${offset}`);
+  }
+  readXRefStream(doc, object);
+  return object.dict;
+}
+
+function readXRefTable(doc: PDFDocument, cursor: PDFCursor): PDFDict {
+  while (true) {
+    const token = readToken(cursor);
+    if (isKeyword(token, "trailer")) break;
+    if (typeof token !== "number") {
+      throw new Error("Malformed xref table");
+    }
+
+    const start = token;
+    const count = readToken(cursor);
+    if (typeof count !== "number") throw new Error("Malformed xref subsection");
+
+    for (let i = 0; i < count; i++) {
+      const entryOffset = readToken(cursor);
+      readToken(cursor); // Generation number
+      const kind = readToken(cursor);
+      const num = start + i;
+
+      if (
+        isKeyword(kind, "n") &&
+        typeof entryOffset === "number" &&
+        !doc.xref.has(num)
+      ) {
+        doc.xref.set(num, { type: "offset", offset: entryOffset });
+      } else if (!isKeyword(kind, "n") && !isKeyword(kind, "f")) {
+        throw new Error("Malformed xref entry");
+      }
+    }
+  }
+
+  const trailer = readToken(cursor);
+  if (!isDict(trailer)) throw new Error("Missing trailer dictionary");
+  return trailer;
+}
+
+function readXRefStream(doc: PDFDocument, stream: PDFStream): void {
+  const data = decodeStream(doc, stream);
+
+  const widths = dictGet(doc, stream, "W");
+  if (!Array.isArray(widths) || widths.length < 3) {
+    throw new Error("Malformed xref stream /W");
+  }
+  const [w1, w2, w3] = [0, 1, 2].map((i) => resolve(doc, widths[i]));
+  if (!isFieldWidth(w1) || !isFieldWidth(w2) || !isFieldWidth(w3)) {
+    throw new Error("Malformed xref stream /W");
+  }
+
+  const size = dictGet(doc, stream, "Size");
+  if (!isCount(size)) {
+    throw new Error("Malformed xref stream /Size");
+  }
+
+  const index = dictGet(doc, stream, "Index") ?? [0, size];
+  if (
+    !Array.isArray(index) ||
+    index.length % 2 !== 0 ||
+    !index.every((value) => isCount(resolve(doc, value)))
+  ) {
+    throw new Error("Malformed xref stream /Index");
+  }
+  const entryLength = w1 + w2 + w3;
+
+  const readField = (pos: number, width: number) => {
+    let value = 0;
+    for (let i = 0; i < width; i++) value = value * 256 + data[pos + i];
+    return value;
+  };
+
+  let pos = 0;
+  for (let i = 0; i + 1 < index.length; i += 2) {
+    const start = resolve(doc, index[i]) as number;
+    const count = resolve(doc, index[i + 1]) as number;
+
+    for (let j = 0; j < count && pos + entryLength <= data.length; j++) {
+      // A zero-width type field means "type 1"
+      const kind = w1 > 0 ? readField(pos, w1) : 1;
+      const field2 = readField(pos + w1, w2);
+      const field3 = readField(pos + w1 + w2, w3);
+      pos += entryLength;
+
+      const num = start + j;
+      if (doc.xref.has(num)) continue;
+
+      if (kind === 1) {
+        doc.xref.set(num, { type: "offset", offset: field2 });
+      } else if (kind === 2) {
+        doc.xref.set(num, {
+          type: "compressed",
+          streamNum: field2,
+          index: field3,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Check an xref stream field width: a whole number of bytes, small enough
+ * to read as a number
+ */
+function isFieldWidth(value: PDFValue): value is number {
+  return isCount(value) && value <= 8;
+}
+
+/**
+ * Check for a non-negative whole number, as object numbers and counts are
+ */
+function isCount(value: PDFValue): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Rebuild the xref table by scanning the whole file for "N G obj"
+ */
+function rebuildXRef(doc: PDFDocument): void {
+  doc.xref.clear();
+  const binary = bytesToBinaryString(doc.data);
+  const objRegex = /(\d+)\s+(\d+)\s+obj\b/g;
+  const objStreams: number[] = [];
+  let match;
+
+  // Later definitions win, matching incremental update semantics
+  while ((match = objRegex.exec(binary)) !== null) {
+    const num = parseInt(match[1], 10);
+    doc.xref.set(num, { type: "offset", offset: match.index });
+  }
+
+  let trailer: PDFDict | null = null;
+  let catalogNum: number | null = null;
+
+  for (const num of Array.from(doc.xref.keys())) {
+    let object: PDFValue;
+    try {
+      object = getObject(doc, num);
+    } catch {
+      continue;
+    }
+    const type = dictGetName(doc, object, "Type");
+    if (type === "ObjStm") objStreams.push(num);
+    if (type === "Catalog") catalogNum = num;
+    if (type === "XRef" && isStream(object) && object.dict.entries.has("Root")) {
+      trailer = object.dict;
+    }
+  }
+
+  // Register objects stored inside object streams
+  for (const streamNum of objStreams) {
+    try {
+      const offsets = readObjectStreamOffsets(doc, streamNum);
+      offsets.forEach((num, index) => {
+        if (!doc.xref.has(num)) {
+          doc.xref.set(num, { type: "compressed", streamNum, index });
+        }
+      });
+    } catch (error) {
+      console.warn("Skipping damaged object stream:", error);
+    }
+  }
+
+  const trailerRegex = /trailer\s*<</g;
+  while ((match = trailerRegex.exec(binary)) !== null) {
+    const cursor: PDFCursor = { data: doc.data, pos: match.index + 7 };
+    const dict = readToken(cursor);
+    if (isDict(dict) && dict.entries.has("Root")) trailer = dict;
+  }
+
+  if (trailer) {
+    doc.trailer = trailer;
+  } else if (catalogNum !== null) {
+    doc.trailer = {
+      type: "dict",
+      entries: new Map([["Root", { type: "ref", num: catalogNum, gen: 0 }]]),
+    };
+  }
+}
+
+// ============================================================================
+// Objects and streams
+// ============================================================================
+
+/**
+ * Get an indirect object by number, parsing it on first access
+ */
+export function getObject(doc: PDFDocument, num: number): PDFValue {
+  if (doc.cache.has(num)) return doc.cache.get(num)!;
+
+  const entry = doc.xref.get(num);
+  let object: PDFValue = null;
+
+  // Guard against reference cycles while we parse
+  doc.cache.set(num, null);
+
+  if (entry?.type === "offset") {
+    object = readIndirectObject(doc, { data: doc.data, pos: entry.offset });
+  } else if (entry?.type === "compressed") {
+    object = readCompressedObject(doc, entry.streamNum, entry.index);
+  }
+
+  doc.cache.set(num, object);
+  return object;
+}
+
+/**
+ * Parse "N G obj <value> [stream ... endstream] endobj" at the cursor
+ */
+function readIndirectObject(doc: PDFDocument, cursor: PDFCursor): PDFValue {
+  const num = readToken(cursor);
+  const gen = readToken(cursor);
+  const keyword = readToken(cursor);
+
+  if (
+    typeof num !== "number" ||
+    typeof gen !== "number" ||
+    !isKeyword(keyword, "obj")
+  ) {
+    return null;
+  }
+
+  const value = readToken(cursor);
+  if (value === undefined || isKeyword(value)) return null;
+
+  if (!isDict(value)) return value;
+
+  // Check for a stream body following the dictionary
+  const afterDict = cursor.pos;
+  const next = readToken(cursor);
+  if (!isKeyword(next, "stream")) {
+    cursor.pos = afterDict;
+    return value;
+  }
+
+  return readStreamBody(doc, cursor, value);
+}
+
+function readStreamBody(
+  doc: PDFDocument,
+  cursor: PDFCursor,
+  dict: PDFDict,
+): PDFStream {
+  const { data } = cursor;
+
+  // The stream keyword is followed by CRLF or LF
+  if (data[cursor.pos] === 0x0d) cursor.pos++;
+  if (data[cursor.pos] === 0x0a) cursor.pos++;
+  const start = cursor.pos;
+
+  let length = -1;
+  const lengthValue = dict.entries.get("Length");
+  if (typeof lengthValue === "number") {
+    length = lengthValue;
+  } else if (isRef(lengthValue)) {
+    const resolved = resolve(doc, lengthValue);
+    if (typeof resolved === "number") length = resolved;
+  }
+
+  // Trust /Length only if "endstream" really follows it
+  if (length >= 0 && start + length <= data.length) {
+    const probe: PDFCursor = { data, pos: start + length };
+    const token = readToken(probe);
+    if (isKeyword(token, "endstream")) {
+      cursor.pos = probe.pos;
+      return { type: "stream", dict, data: data.subarray(start, start + length) };
+    }
+  }
+
+  let end = indexOfBytes(data, "endstream", start);
+  if (end < 0) end = data.length;
+  cursor.pos = Math.min(data.length, end + 9);
+
+  // Trim the EOL that precedes endstream
+  let dataEnd = end;
+  if (data[dataEnd - 1] === 0x0a) dataEnd--;
+  if (data[dataEnd - 1] === 0x0d) dataEnd--;
+
+  return { type: "stream", dict, data: data.subarray(start, Math.max(start, dataEnd)) };
+}
+
+/**
+ * Read the "objnum offset" header pairs of an object stream
+ */
+function readObjectStreamOffsets(doc: PDFDocument, streamNum: number): number[] {
+  const stream = getObject(doc, streamNum);
+  if (!isStream(stream)) return [];
+
+  const data = decodeStream(doc, stream);
+  const count = dictGetNumber(doc, stream, "N") ?? 0;
+  const cursor: PDFCursor = { data, pos: 0 };
+  const numbers: number[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const num = readToken(cursor);
+    readToken(cursor); // Offset
+    if (typeof num !== "number") break;
+    numbers.push(num);
+  }
+  return numbers;
+}
+
+const objectStreamCache = new WeakMap<
+  PDFStream,
+  { data: Uint8Array; offsets: number[]; first: number }
+>();
+
+function readCompressedObject(
+  doc: PDFDocument,
+  streamNum: number,
+  index: number,
+): PDFValue {
+  const stream = getObject(doc, streamNum);
+  if (!isStream(stream)) return null;
+
+  let parsed = objectStreamCache.get(stream);
+  if (!parsed) {
+    const data = decodeStream(doc, stream);
+    const count = dictGetNumber(doc, stream, "N") ?? 0;
+    const first = dictGetNumber(doc, stream, "First") ?? 0;
+    const cursor: PDFCursor = { data, pos: 0 };
+    const offsets: number[] = [];
+
+    for (let i = 0; i < count; i++) {
+      readToken(cursor); // Object number
+      const offset = readToken(cursor);
+      if (typeof offset !== "number") break;
+      offsets.push(offset);
+    }
+
+    parsed = { data, offsets, first };
+    objectStreamCache.set(stream, parsed);
+  }
+
+  const offset = parsed.offsets[index];
+  if (offset === undefined) return null;
+
+  const token = readToken({ data: parsed.data, pos: parsed.first + offset });
+  return token === undefined || isKeyword(token) ? null : token;
+}
+
+/**
+ * Decode a stream's data through its /Filter chain
+ */
+export function decodeStream(doc: PDFDocument, stream: PDFStream): Uint8Array {
+  const filterValue = dictGet(doc, stream, "Filter");
+  const paramsValue = dictGet(doc, stream, "DecodeParms");
+
+  const filters = (Array.isArray(filterValue) ? filterValue : [filterValue])
+    .map((f) => resolve(doc, f))
+    .filter((f): f is PDFName => isName(f))
+    .map((f) => f.name);
+
+  if (filters.length === 0) return stream.data;
+
+  const paramsList = Array.isArray(paramsValue) ? paramsValue : [paramsValue];
+  const params = paramsList.map((p): FilterParams | null => {
+    const dict = resolve(doc, p);
+    if (!isDict(dict)) return null;
+    return {
+      predictor: dictGetNumber(doc, dict, "Predictor"),
+      colors: dictGetNumber(doc, dict, "Colors"),
+      bitsPerComponent: dictGetNumber(doc, dict, "BitsPerComponent"),
+      columns: dictGetNumber(doc, dict, "Columns"),
+      earlyChange: dictGetNumber(doc, dict, "EarlyChange"),
+    };
+  });
+
+  return applyFilters(stream.data, filters, params);
+}
+
+// ============================================================================
+// Text strings
+// ============================================================================
+
+// PDFDocEncoding characters that differ from Latin-1
+const PDF_DOC_ENCODING: Record<number, string> = {
+  0x18: "˘", 0x19: "ˇ", 0x1a: "ˆ", 0x1b: "˙", 0x1c: "˝", 0x1d: "˛",
+  0x1e: "˚", 0x1f: "˜", 0x80: "•", 0x81: "†", 0x82: "‡", 0x83: "…",
+  0x84: "—", 0x85: "–", 0x86: "ƒ", 0x87: "⁄", 0x88: "‹", 0x89: "›",
+  0x8a: "−", 0x8b: "‰", 0x8c: "„", 0x8d: "“", 0x8e: "”", 0x8f: "‘",
+  0x90: "’", 0x91: "‚", 0x92: "™", 0x93: "ﬁ", 0x94: "ﬂ", 0x95: "Ł",
+  0x96: "Œ", 0x97: "Š", 0x98: "Ÿ", 0x99: "Ž", 0x9a: "ı", 0x9b: "ł",
+  0x9c: "œ", 0x9d: "š", 0x9e: "ž", 0xa0: "€",
+};
+
+/**
+ * Decode a text string outside content streams (outline titles, /Info)
+ * These are UTF-16BE with a BOM, UTF-8 with a BOM, or PDFDocEncoding
+ */
+export function decodeTextString(value: PDFValue): string {
+  if (!isString(value)) return "";
+  const { bytes } = value;
+
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let result = "";
+    for (let i = 2; i + 1 < bytes.length; i += 2) {
+      result += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    }
+    return result;
+  }
+
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    try {
+      return decodeURIComponent(
+        Array.from(bytes.subarray(3), (b) => "%" + b.toString(16).padStart(2, "0")).join(""),
+      );
+    } catch {
+      // Fall through to PDFDocEncoding
+    }
+  }
+
+  let result = "";
+  for (const byte of bytes) {
+    result += PDF_DOC_ENCODING[byte] ?? String.fromCharCode(byte);
+  }
+  return result;
+}
+
+// ============================================================================
+// Byte helpers
+// ============================================================================
+
+/**
+ * Convert bytes to a Latin-1 "binary string" (one char per byte)
+ */
+export function bytesToBinaryString(bytes: Uint8Array): string {
+  const chunks: string[] = [];
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    chunks.push(
+      String.fromCharCode.apply(
+        null,
+        Array.from(bytes.subarray(i, i + chunkSize)),
+      ),
+    );
+  }
+  return chunks.join("");
+}
+
+function indexOfBytes(data: Uint8Array, pattern: string, from = 0): number {
+  const first = pattern.charCodeAt(0);
+  outer: for (let i = from; i <= data.length - pattern.length; i++) {
+    if (data[i] !== first) continue;
+    for (let j = 1; j < pattern.length; j++) {
+      if (data[i + j] !== pattern.charCodeAt(j)) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+function lastIndexOfBytes(data: Uint8Array, pattern: string): number {
+  outer: for (let i = data.length - pattern.length; i >= 0; i--) {
+    for (let j = 0; j < pattern.length; j++) {
+      if (data[i + j] !== pattern.charCodeAt(j)) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
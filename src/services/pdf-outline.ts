@@ -0,0 +1,156 @@
+// PDF Outline Service
+// Turns the document outline (bookmarks) into chapters
+
+import { Chapter, PageAnchor } from "./book-storage";
+import {
+  PDFDict,
+  PDFDocument,
+  PDFValue,
+  decodeTextString,
+  dictGet,
+  dictGetDict,
+  dictGetName,
+  isDict,
+  isName,
+  isString,
+  resolve,
+} from "./pdf-objects";
+
+const MAX_OUTLINE_ITEMS = 5000;
+
+/**
+ * Read /Root /Outlines and resolve each entry to a word index
+ * Entries whose destination can't be resolved are skipped
+ */
+export function extractOutlineChapters(
+  doc: PDFDocument,
+  pageDicts: PDFDict[],
+  pages: PageAnchor[],
+): Chapter[] {
+  const root = dictGetDict(doc, doc.trailer, "Root");
+  const outlines = dictGetDict(doc, root, "Outlines");
+  if (!outlines) return [];
+
+  const chapters: Chapter[] = [];
+  const visited = new Set<PDFDict>();
+
+  const walk = (first: PDFValue) => {
+    let item = first;
+    while (isDict(item) && !visited.has(item) && visited.size < MAX_OUTLINE_ITEMS) {
+      visited.add(item);
+
+      const title = decodeTextString(dictGet(doc, item, "Title"))
+        .replace(/\s+/g, " ")
+        .trim();
+      const pageIndex = resolveDestinationPage(doc, root, item, pageDicts);
+
+      if (title && pageIndex >= 0 && pageIndex < pages.length) {
+        chapters.push({ title, startIndex: pages[pageIndex].startIndex });
+      }
+
+      // Children come right after their parent, depth-first
+      walk(dictGet(doc, item, "First"));
+      item = dictGet(doc, item, "Next");
+    }
+  };
+
+  walk(dictGet(doc, outlines, "First"));
+  return chapters;
+}
+
+/**
+ * Find the page index an outline item points at, or -1
+ */
+function resolveDestinationPage(
+  doc: PDFDocument,
+  root: PDFDict | null,
+  item: PDFDict,
+  pageDicts: PDFDict[],
+): number {
+  let dest = dictGet(doc, item, "Dest");
+
+  // Items may use a GoTo action instead of a direct destination
+  if (dest === null) {
+    const action = dictGetDict(doc, item, "A");
+    if (dictGetName(doc, action, "S") !== "GoTo") return -1;
+    dest = dictGet(doc, action, "D");
+  }
+
+  // Named destinations are looked up in the catalog
+  if (isName(dest) || isString(dest)) {
+    dest = lookupNamedDestination(doc, root, dest);
+  }
+
+  // A destination dictionary wraps the array in /D
+  if (isDict(dest)) dest = dictGet(doc, dest, "D");
+
+  if (!Array.isArray(dest) || dest.length === 0) return -1;
+
+  const target = dest[0];
+  if (typeof target === "number") return target; // Page index (remote form)
+
+  const page = resolve(doc, target);
+  return isDict(page) ? pageDicts.indexOf(page) : -1;
+}
+
+/**
+ * Resolve a named destination via /Dests (PDF 1.1) or the /Names tree
+ */
+function lookupNamedDestination(
+  doc: PDFDocument,
+  root: PDFDict | null,
+  name: PDFValue,
+): PDFValue {
+  if (isName(name)) {
+    return dictGet(doc, dictGetDict(doc, root, "Dests"), name.name);
+  }
+  if (!isString(name)) return null;
+
+  const key = decodeTextString(name);
+  const names = dictGetDict(doc, root, "Names");
+  const tree = dictGetDict(doc, names, "Dests");
+  return tree ? lookupNameTree(doc, tree, key, new Set()) : null;
+}
+
+/**
+ * Search a name tree (/Kids + /Names [key value ...]) for a key
+ */
+function lookupNameTree(
+  doc: PDFDocument,
+  node: PDFDict,
+  key: string,
+  visited: Set<PDFDict>,
+): PDFValue {
+  if (visited.has(node)) return null;
+  visited.add(node);
+
+  const names = dictGet(doc, node, "Names");
+  if (Array.isArray(names)) {
+    for (let i = 0; i + 1 < names.length; i += 2) {
+      if (decodeTextString(resolve(doc, names[i])) === key) {
+        return resolve(doc, names[i + 1]);
+      }
+    }
+  }
+
+  const kids = dictGet(doc, node, "Kids");
+  if (Array.isArray(kids)) {
+    for (const kid of kids) {
+      const child = resolve(doc, kid);
+      if (!isDict(child)) continue;
+
+      // Skip subtrees whose /Limits exclude the key
+      const limits = dictGet(doc, child, "Limits");
+      if (Array.isArray(limits) && limits.length === 2) {
+        const low = decodeTextString(resolve(doc, limits[0]));
+        const high = decodeTextString(resolve(doc, limits[1]));
+        if (key < low || key > high) continue;
+      }
+
+      const found = lookupNameTree(doc, child, key, visited);
+      if (found !== null) return found;
+    }
+  }
+
+  return null;
+}
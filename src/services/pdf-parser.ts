@@ -3,50 +3,138 @@
 // Note: Uses a simple approach since expo-pdf-text-extract may need dev client
 
 import * as FileSystem from "expo-file-system/legacy";
-import { extractTitle, normalizeText, tokenizeWords } from "./text-normalizer";
+import { Chapter, PageAnchor, WordToken } from "./book-storage";
+import { detectDocumentLanguage } from "./language-detector";
+import { PDFTextRun, extractTextRuns } from "./pdf-content";
+import { concatBytes } from "./pdf-filters";
+import { PDFLine, layoutPage, linesToText } from "./pdf-layout";
+import {
+  PDFDict,
+  PDFDocument,
+  PDFValue,
+  decodeStream,
+  dictGet,
+  dictGetDict,
+  dictGetName,
+  isDict,
+  isStream,
+  loadPDFDocument,
+  resolve,
+} from "./pdf-objects";
+import { extractOutlineChapters } from "./pdf-outline";
+import { base64ToBytes } from "./text-encoding";
+import {
+  appendWords,
+  extractTitle,
+  normalizeText,
+  removePageNumberLines,
+  removeRunningHeaders,
+  tokenizeWords,
+} from "./text-normalizer";
 
 interface PDFContent {
   title: string;
+  language?: string; // The language given, or else the detected one
   text: string;
-  words: string[];
+  words: WordToken[];
+  chapters: Chapter[];
+  pages: PageAnchor[];
+}
+
+const NEWLINE = Uint8Array.of(0x0a);
+
+// Runs this much larger than the body text are treated as headings
+const HEADING_SIZE_RATIO = 1.3;
+
+/**
+ * A page from the page tree, with inherited attributes resolved
+ */
+interface PDFPage {
+  dict: PDFDict;
+  resources: PDFDict | null;
 }
 
 /**
  * Simple PDF text extraction
  * For production, consider using expo-pdf-text-extract with a dev client
  *
- * This is a fallback that attempts basic extraction
+ * This is a fallback that attempts basic extraction. The text is normalized
+ * for the given language, or else the detected one
  */
-export async function parsePDF(filePath: string): Promise<PDFContent> {
+export async function parsePDF(
+  filePath: string,
+  language?: string,
+): Promise<PDFContent> {
   try {
     // Read file as base64
     const fileContent = await FileSystem.readAsStringAsync(filePath, {
       encoding: FileSystem.EncodingType.Base64,
     });
 
-    // Decode base64 to binary string
-    const binaryString = atob(fileContent);
+    // Decode base64 and load the object structure
+    const doc = loadPDFDocument(base64ToBytes(fileContent));
 
-    // Extract text streams from PDF
-    // This is a simplified approach that works for many PDFs
-    let extractedText = extractTextFromPDFBinary(binaryString);
+    // Extract text page by page, in page tree order
+    const pdfPages = getPages(doc);
+    // Drop running headers, footers and page numbers before they reach
+    // the text
+    const pageLines = removePageNumberLines(
+      removeRunningHeaders(
+        pdfPages.map((page) => layoutPage(extractPageRuns(doc, page))),
+      ),
+    );
+    const pageTexts = pageLines.map(linesToText);
 
-    if (!extractedText || extractedText.trim().length < 50) {
+    if (pageTexts.join("").trim().length < 50) {
       // If no text found, the PDF might be image-based
       throw new Error(
         "Could not extract text from PDF. It may be a scanned/image-based document.",
       );
     }
 
-    // Normalize the text
-    const normalizedText = normalizeText(extractedText);
-    const words = tokenizeWords(normalizedText);
-    const title = extractTitle(normalizedText);
+    const textLanguage = language || detectDocumentLanguage(pageTexts);
+
+    // Normalize each page, tracking the word index where it starts
+    const allWords: WordToken[] = [];
+    const normalizedPages: string[] = [];
+    const pages: PageAnchor[] = [];
+
+    pageTexts.forEach((pageText, i) => {
+      const normalizedText = normalizeText(pageText, {
+        language: textLanguage,
+      });
+      pages.push({ label: String(i + 1), startIndex: allWords.length });
+      normalizedPages.push(normalizedText);
+
+      // A paragraph runs on to the next page unless its sentence ended
+      const lastWord = allWords[allWords.length - 1];
+      const continuesParagraph = !!lastWord && !lastWord.sentenceEnd;
+      appendWords(
+        allWords,
+        tokenizeWords(normalizedText, continuesParagraph, textLanguage),
+      );
+    });
+
+    const text = normalizedPages.filter((t) => t.length > 0).join("\n\n");
+    const title = extractTitle(text);
+
+    // Prefer the bookmarks; fall back to guessing headings from font sizes
+    let chapters = extractOutlineChapters(
+      doc,
+      pdfPages.map((page) => page.dict),
+      pages,
+    );
+    if (chapters.length === 0) {
+      chapters = detectHeadingChapters(pageLines, pages, textLanguage);
+    }
 
     return {
       title,
-      text: normalizedText,
-      words,
+      language: textLanguage,
+      text,
+      words: allWords,
+      chapters,
+      pages,
     };
   } catch (error) {
     console.error("Error parsing PDF:", error);
@@ -55,125 +143,133 @@ export async function parsePDF(filePath: string): Promise<PDFContent> {
 }
 
 /**
- * Extract text from PDF binary content
- * This handles common PDF text encoding
+ * Walk /Root -> /Pages -> /Kids and return the leaf pages in order
  */
-function extractTextFromPDFBinary(binary: string): string {
-  const textParts: string[] = [];
-
-  // Look for text streams between BT (begin text) and ET (end text)
-  const textBlockRegex = /BT\s*([\s\S]*?)\s*ET/g;
-  let match;
+function getPages(doc: PDFDocument): PDFPage[] {
+  const pages: PDFPage[] = [];
+  const visited = new Set<PDFDict>();
+  const root = dictGetDict(doc, doc.trailer, "Root");
 
-  while ((match = textBlockRegex.exec(binary)) !== null) {
-    const textBlock = match[1];
+  const walk = (node: PDFValue, inheritedResources: PDFDict | null) => {
+    if (!isDict(node) || visited.has(node)) return;
+    visited.add(node);
 
-    // Extract text from Tj and TJ operators
-    const textContent = extractTextOperators(textBlock);
-    if (textContent) {
-      textParts.push(textContent);
-    }
-  }
-
-  // Also try to find raw string content
-  const stringRegex = /\(([^)]+)\)/g;
-  while ((match = stringRegex.exec(binary)) !== null) {
-    const content = match[1];
-    // Filter out non-text content
-    if (isPrintableText(content) && content.length > 2) {
-      textParts.push(decodePDFString(content));
-    }
-  }
+    // Resources are inheritable from ancestor /Pages nodes
+    const resources = dictGetDict(doc, node, "Resources") || inheritedResources;
+    const kids = dictGet(doc, node, "Kids");
 
-  // Look for hex-encoded strings
-  const hexRegex = /<([0-9A-Fa-f]+)>/g;
-  while ((match = hexRegex.exec(binary)) !== null) {
-    const hexContent = match[1];
-    if (hexContent.length > 4) {
-      const decoded = decodeHexString(hexContent);
-      if (isPrintableText(decoded) && decoded.length > 2) {
-        textParts.push(decoded);
+    if (Array.isArray(kids)) {
+      for (const kid of kids) {
+        walk(resolve(doc, kid), resources);
       }
+    } else if (dictGetName(doc, node, "Type") !== "Pages") {
+      pages.push({ dict: node, resources });
     }
-  }
+  };
 
-  return textParts.join(" ");
+  walk(dictGet(doc, root, "Pages"), null);
+  return pages;
 }
 
 /**
- * Extract text from PDF text operators (Tj, TJ, ', ")
+ * Decode a page's /Contents stream(s) into one content buffer
  */
-function extractTextOperators(textBlock: string): string {
-  const parts: string[] = [];
-
-  // Tj operator: (text) Tj
-  const tjRegex = /\(([^)]*)\)\s*Tj/g;
-  let match;
-  while ((match = tjRegex.exec(textBlock)) !== null) {
-    parts.push(decodePDFString(match[1]));
-  }
+function getPageContent(doc: PDFDocument, page: PDFPage): Uint8Array {
+  // /Contents is either a single stream or an array of streams
+  const contentsValue = dictGet(doc, page.dict, "Contents");
+  const streams = Array.isArray(contentsValue)
+    ? contentsValue.map((item) => resolve(doc, item))
+    : [contentsValue];
 
-  // TJ operator: [(text) num (text) ...] TJ
-  const tjArrayRegex = /\[(.*?)\]\s*TJ/g;
-  while ((match = tjArrayRegex.exec(textBlock)) !== null) {
-    const arrayContent = match[1];
-    const stringRegex = /\(([^)]*)\)/g;
-    let stringMatch;
-    while ((stringMatch = stringRegex.exec(arrayContent)) !== null) {
-      parts.push(decodePDFString(stringMatch[1]));
+  const parts: Uint8Array[] = [];
+  for (const stream of streams) {
+    if (!isStream(stream)) continue;
+    try {
+      // Streams may split an operator, so join them with whitespace
+      parts.push(decodeStream(doc, stream), NEWLINE);
+    } catch (error) {
+      console.warn("Skipping undecodable content stream:", error);
     }
   }
-
-  return parts.join("");
+  return concatBytes(parts);
 }
 
 /**
- * Decode PDF string escape sequences
+ * Interpret a single page's content into text runs
  */
-function decodePDFString(str: string): string {
-  return str
-    .replace(/\\n/g, "\n")
-    .replace(/\\r/g, "\r")
-    .replace(/\\t/g, "\t")
-    .replace(/\\\(/g, "(")
-    .replace(/\\\)/g, ")")
-    .replace(/\\\\/g, "\\")
-    .replace(/\\(\d{3})/g, (_, oct) => String.fromCharCode(parseInt(oct, 8)));
+function extractPageRuns(doc: PDFDocument, page: PDFPage): PDFTextRun[] {
+  return extractTextRuns(doc, getPageContent(doc, page), page.resources);
 }
 
 /**
- * Decode hex-encoded string
+ * Guess chapters from lines set noticeably larger than the body text
+ * Used when a PDF has no outline
  */
-function decodeHexString(hex: string): string {
-  let result = "";
-  for (let i = 0; i < hex.length; i += 2) {
-    const charCode = parseInt(hex.substring(i, i + 2), 16);
-    if (charCode > 0) {
-      result += String.fromCharCode(charCode);
+function detectHeadingChapters(
+  pageLines: PDFLine[][],
+  pages: PageAnchor[],
+  language?: string,
+): Chapter[] {
+  // The body size is the one most characters are set in
+  const sizeWeights = new Map<number, number>();
+  for (const lines of pageLines) {
+    for (const line of lines) {
+      const size = Math.round(line.fontSize * 2) / 2;
+      sizeWeights.set(size, (sizeWeights.get(size) || 0) + line.text.length);
     }
   }
-  return result;
-}
 
-/**
- * Check if text appears to be printable/readable
- */
-function isPrintableText(text: string): boolean {
-  if (!text || text.length === 0) return false;
-
-  // Count printable characters
-  let printable = 0;
-  for (let i = 0; i < text.length; i++) {
-    const code = text.charCodeAt(i);
-    if (
-      (code >= 32 && code <= 126) || // ASCII printable
-      (code >= 160 && code <= 255) || // Extended Latin
-      (code >= 0x0400 && code <= 0x04ff) || // Cyrillic
-      (code >= 0x00c0 && code <= 0x024f) // Latin Extended
-    ) {
-      printable++;
+  let bodySize = 0;
+  let bestWeight = 0;
+  sizeWeights.forEach((weight, size) => {
+    if (weight > bestWeight) {
+      bestWeight = weight;
+      bodySize = size;
     }
-  }
+  });
+  if (bodySize <= 0) return [];
+
+  const headingSize = bodySize * HEADING_SIZE_RATIO;
+  const chapters: Chapter[] = [];
+
+  pageLines.forEach((lines, pageIndex) => {
+    let i = 0;
+    while (i < lines.length) {
+      if (lines[i].fontSize < headingSize) {
+        i++;
+        continue;
+      }
+
+      // Consecutive large lines form one heading ("Chapter 1" + "The Start")
+      const start = i;
+      while (i < lines.length && lines[i].fontSize >= headingSize) i++;
+
+      const title = lines
+        .slice(start, i)
+        .map((line) => line.text)
+        .join(" ")
+        .replace(/\s+/g, " ")
+        .trim();
+      const wordCount = title.split(" ").length;
+      if (title.length < 2 || wordCount > 15 || !/\p{L}/u.test(title)) continue;
+
+      // Count the words that precede the heading on its page
+      const before = tokenizeWords(
+        normalizeText(linesToText(lines.slice(0, start)), { language }),
+        false,
+        language,
+      );
+      const startIndex = pages[pageIndex].startIndex + before.length;
+
+      const previous = chapters[chapters.length - 1];
+      if (previous && previous.startIndex === startIndex) continue;
+
+      chapters.push({ title, startIndex });
+    }
+  });
+
+  // Headings on nearly every page are a layout style, not chapters
+  if (chapters.length < 2 || chapters.length > pages.length) return [];
 
-  return printable / text.length > 0.7;
+  return chapters;
 }
@@ -0,0 +1,240 @@
+// Text Encoding Service
+// Decodes raw file bytes into strings, detecting the character encoding
+
+export type TextEncoding =
+  | "utf-8"
+  | "utf-16le"
+  | "utf-16be"
+  | "windows-1252"
+  | "windows-1251";
+
+// Windows-1252 characters for 0x80-0x9F (unassigned bytes map to C1 controls)
+// PDF's WinAnsiEncoding is the same table
+export const WINDOWS_1252_HIGH =
+  "€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008DŽ\u008F\u0090‘’“”•–—˜™š›œ\u009DžŸ";
+
+// Windows-1251 (Cyrillic) characters for 0x80-0xBF; 0xC0-0xFF map to А-я
+const WINDOWS_1251_HIGH =
+  "ЂЃ‚ѓ„…†‡€‰Љ‹ЊЌЋЏђ‘’“”•–—\u0098™љ›њќћџ" +
+  "\u00A0ЎўЈ¤Ґ¦§Ё©Є«¬\u00AD®Ї°±Ііґµ¶·ё№є»јЅѕї";
+
+/**
+ * Guess the encoding of a byte buffer
+ * A byte order mark wins; otherwise valid UTF-8 is assumed to be UTF-8 and
+ * anything else is treated as Windows-1252
+ */
+export function detectEncoding(bytes: Uint8Array): TextEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return "utf-8";
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+
+  return decodeUTF8(bytes, true) !== null ? "utf-8" : "windows-1252";
+}
+
+/**
+ * Decode bytes to a string, detecting the encoding unless one is given
+ * A leading byte order mark is dropped
+ */
+export function decodeText(bytes: Uint8Array, encoding?: TextEncoding): string {
+  const detected = encoding || detectEncoding(bytes);
+
+  switch (detected) {
+    case "utf-16le":
+    case "utf-16be":
+      return stripBOM(decodeUTF16(bytes, detected === "utf-16le"));
+    case "windows-1252":
+      return decodeWindows1252(bytes);
+    case "windows-1251":
+      return decodeWindows1251(bytes);
+    default:
+      return stripBOM(decodeUTF8(bytes, false) ?? "");
+  }
+}
+
+/**
+ * Map an encoding label (e.g. from an XML declaration) to a supported
+ * encoding, or null if we can't decode it
+ */
+export function encodingFromLabel(label: string): TextEncoding | null {
+  switch (label.trim().toLowerCase()) {
+    case "utf-8":
+    case "utf8":
+      return "utf-8";
+    case "utf-16le":
+      return "utf-16le";
+    case "utf-16":
+    case "utf-16be":
+      return "utf-16be";
+    case "windows-1252":
+    case "cp1252":
+    case "iso-8859-1":
+    case "latin1":
+    case "us-ascii":
+    case "ascii":
+      return "windows-1252";
+    case "windows-1251":
+    case "cp1251":
+      return "windows-1251";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Decode UTF-8
+ * In strict mode, returns null on the first malformed sequence; otherwise
+ * malformed bytes become U+FFFD
+ */
+export function decodeUTF8(bytes: Uint8Array, strict: boolean): string | null {
+  const parts: string[] = [];
+  let codes: number[] = [];
+  let i = 0;
+
+  const push = (code: number) => {
+    codes.push(code);
+    if (codes.length >= 8192) {
+      parts.push(String.fromCodePoint(...codes));
+      codes = [];
+    }
+  };
+
+  while (i < bytes.length) {
+    const byte = bytes[i];
+
+    if (byte < 0x80) {
+      push(byte);
+      i++;
+      continue;
+    }
+
+    // Sequence length and minimum code point from the lead byte
+    let length = 0;
+    let code = 0;
+    let min = 0;
+    if (byte >= 0xc2 && byte <= 0xdf) {
+      length = 2;
+      code = byte & 0x1f;
+      min = 0x80;
+    } else if (byte >= 0xe0 && byte <= 0xef) {
+      length = 3;
+      code = byte & 0x0f;
+      min = 0x800;
+    } else if (byte >= 0xf0 && byte <= 0xf4) {
+      length = 4;
+      code = byte & 0x07;
+      min = 0x10000;
+    }
+
+    let valid = length > 0 && i + length <= bytes.length;
+    for (let j = 1; valid && j < length; j++) {
+      const next = bytes[i + j];
+      if ((next & 0xc0) !== 0x80) valid = false;
+      code = (code << 6) | (next & 0x3f);
+    }
+    if (valid && (code < min || code > 0x10ffff)) valid = false;
+    if (valid && code >= 0xd800 && code <= 0xdfff) valid = false;
+
+    if (!valid) {
+      if (strict) return null;
+      push(0xfffd);
+      i++;
+      continue;
+    }
+
+    push(code);
+    i += length;
+  }
+
+  parts.push(String.fromCodePoint(...codes));
+  return parts.join("");
+}
+
+/**
+ * Decode UTF-16 in either byte order
+ */
+export function decodeUTF16(bytes: Uint8Array, littleEndian: boolean): string {
+  const parts: string[] = [];
+  let units: number[] = [];
+
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    units.push(
+      littleEndian
+        ? bytes[i] | (bytes[i + 1] << 8)
+        : (bytes[i] << 8) | bytes[i + 1],
+    );
+    if (units.length >= 8192) {
+      parts.push(String.fromCharCode(...units));
+      units = [];
+    }
+  }
+
+  parts.push(String.fromCharCode(...units));
+  return parts.join("");
+}
+
+/**
+ * Decode Windows-1252 (a superset of ISO-8859-1 for printable characters)
+ */
+export function decodeWindows1252(bytes: Uint8Array): string {
+  const parts: string[] = [];
+  let chars = "";
+
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    chars +=
+      byte >= 0x80 && byte <= 0x9f
+        ? WINDOWS_1252_HIGH[byte - 0x80]
+        : String.fromCharCode(byte);
+    if (chars.length >= 8192) {
+      parts.push(chars);
+      chars = "";
+    }
+  }
+
+  parts.push(chars);
+  return parts.join("");
+}
+
+/**
+ * Decode Windows-1251 (Cyrillic)
+ */
+export function decodeWindows1251(bytes: Uint8Array): string {
+  const parts: string[] = [];
+  let chars = "";
+
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    if (byte < 0x80) {
+      chars += String.fromCharCode(byte);
+    } else if (byte < 0xc0) {
+      chars += WINDOWS_1251_HIGH[byte - 0x80];
+    } else {
+      chars += String.fromCharCode(0x0410 + byte - 0xc0);
+    }
+    if (chars.length >= 8192) {
+      parts.push(chars);
+      chars = "";
+    }
+  }
+
+  parts.push(chars);
+  return parts.join("");
+}
+
+/**
+ * Decode base64 file contents into bytes
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function stripBOM(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
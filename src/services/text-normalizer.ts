@@ -1,16 +1,46 @@
 // Text Normalizer Service
 // Cleans extracted text by removing page numbers, headers, footers, and other artifacts
 
+import { WordToken } from "./book-storage";
+import { HTML_ENTITIES } from "./html-entities";
+import { getPrimaryLanguage } from "./language-detector";
+import { decodeWindows1252 } from "./text-encoding";
+import { hasUnspacedScript, segmentWords } from "./word-segmenter";
+
 export interface NormalizationOptions {
   removePageNumbers?: boolean;
   removeChapterMarkers?: boolean;
   removeHeaders?: boolean;
   collapseWhitespace?: boolean;
   handleHyphenation?: boolean;
+  language?: string; // BCP 47 tag; unset matches every supported language
 }
 
+// Structure marks parsers put in text for tokenizeWords (Unicode
+// noncharacters, so they never clash with book text). Heading marks go on
+// lines of their own, so line-based cleanup still sees the heading text
+export const HEADING_START = "\uFDD0";
+export const HEADING_END = "\uFDD1";
+export const EMPHASIS_START = "\uFDD2";
+export const EMPHASIS_END = "\uFDD3";
+const STRUCTURE_MARK_PATTERN = /[\uFDD0-\uFDD3]/;
+const STRUCTURE_MARKS = /[\uFDD0-\uFDD3]/g;
+
+// Punctuation that ends a sentence, before any closing quotes or brackets
+const SENTENCE_END_PATTERN = /[.!?…‽。！？]["'”’»)\]」』）]*$/;
+
+// Note reference markers (U+FFF9 and a private-use index, see epub-notes)
+// stay on a word until after tokenizing, and don't hide its punctuation
+const TRAILING_NOTE_MARKERS = /(?:\uFFF9[\uE000-\uF8FF])+$/;
+
+// Abbreviations and initials whose period doesn't end a sentence
+const ABBREVIATION_PATTERN =
+  /^(["'“‘«(]*)(mr|mrs|ms|dr|prof|sr|jr|st|mt|vs|fig|vol|no|pp?|ch|cf|e\.g|i\.e|\p{Lu})\.$/iu;
+
+// Page numbers are only removed where a parser knows a line sits in a page
+// number position, so numbers in the prose itself are kept
 const DEFAULT_OPTIONS: NormalizationOptions = {
-  removePageNumbers: true,
+  removePageNumbers: false,
   removeChapterMarkers: true,
   removeHeaders: true,
   collapseWhitespace: true,
@@ -18,67 +48,213 @@ const DEFAULT_OPTIONS: NormalizationOptions = {
 };
 
 /**
- * Patterns to identify and remove common artifacts
+ * Words of the artifacts that differ between languages, as regex sources
  */
-const ARTIFACT_PATTERNS = {
-  // Page numbers in various formats
-  pageNumber: [
-    /^(Page\s+)?\d{1,4}$/gim, // "Page 42" or just "42"
-    /^[-—–]\s*\d{1,4}\s*[-—–]$/gm, // "— 42 —" or "- 42 -"
-    /^\[\d{1,4}\]$/gm, // "[42]"
-    /^\(\d{1,4}\)$/gm, // "(42)"
-    /^p\.\s*\d{1,4}$/gim, // "p. 42"
-  ],
-
-  // Chapter markers that are just numbers
-  chapterMarker: [
-    /^(chapter|capítulo|cap\.?)\s*\d+$/gim,
-    /^[ivxlcdm]+$/gim, // Roman numerals alone
-    /^part\s+\d+$/gim,
-    /^section\s+\d+$/gim,
-  ],
-
-  // Common header/footer patterns
-  headerFooter: [
-    /^(copyright|©).*$/gim,
-    /^all rights reserved.*$/gim,
-    /^isbn[\s:-]*[\d-]+$/gim,
-  ],
+interface ArtifactWords {
+  page: string[];
+  chapter: string[];
+  part: string[];
+  section: string[];
+  rights: string[];
+}
+
+const LANGUAGE_ARTIFACT_WORDS: Record<string, ArtifactWords> = {
+  en: {
+    page: ["page", "p\\."],
+    chapter: ["chapter", "ch\\."],
+    part: ["part"],
+    section: ["section"],
+    rights: ["all rights reserved"],
+  },
+  pt: {
+    page: ["página", "pág\\.", "p\\."],
+    chapter: ["capítulo", "cap\\.?"],
+    part: ["parte"],
+    section: ["seção", "secção"],
+    rights: ["todos os direitos reservados"],
+  },
+  es: {
+    page: ["página", "pág\\.", "p\\."],
+    chapter: ["capítulo", "cap\\.?"],
+    part: ["parte"],
+    section: ["sección"],
+    rights: ["todos los derechos reservados"],
+  },
 };
 
 /**
- * Remove page numbers from text
+ * Patterns to identify and remove common artifacts
  */
-function removePageNumbers(text: string): string {
-  let result = text;
-  for (const pattern of ARTIFACT_PATTERNS.pageNumber) {
-    result = result.replace(pattern, "");
-  }
-  return result;
+interface ArtifactPatterns {
+  pageNumber: RegExp[];
+  chapterMarker: RegExp[];
+  headerFooter: RegExp[];
 }
 
+// A well-formed uppercase Roman numeral alone on a line ("XII"), as
+// chapter numbers are written; lowercase lines like "mix" or "civil" are text
+const ROMAN_NUMERAL_LINE =
+  /^(?=[MDCLXVI])M{0,3}(CM|CD|D?C{0,3})(XC|XL|L?X{0,3})(IX|IV|V?I{0,3})$/gm;
+
+const artifactPatterns = new Map<string, ArtifactPatterns>();
+
 /**
- * Remove chapter markers that are just numbers
+ * Build the artifact patterns of a language
+ * When the language is unknown or has no rules, the words of every
+ * supported language are matched
  */
-function removeChapterMarkers(text: string): string {
-  let result = text;
-  for (const pattern of ARTIFACT_PATTERNS.chapterMarker) {
-    result = result.replace(pattern, "");
-  }
-  return result;
+function getArtifactPatterns(language?: string): ArtifactPatterns {
+  const primary = getPrimaryLanguage(language);
+  const key = primary && LANGUAGE_ARTIFACT_WORDS[primary] ? primary : "";
+  const cached = artifactPatterns.get(key);
+  if (cached) return cached;
+
+  const sets = key
+    ? [LANGUAGE_ARTIFACT_WORDS[key]]
+    : Object.values(LANGUAGE_ARTIFACT_WORDS);
+  const words = (field: keyof ArtifactWords) =>
+    Array.from(new Set(sets.flatMap((set) => set[field]))).join("|");
+
+  const patterns: ArtifactPatterns = {
+    // Page numbers in various formats
+    pageNumber: [
+      new RegExp(`^((${words("page")})\\s*)?\\d{1,4}$`, "gim"), // "Page 42", "p. 42" or just "42"
+      /^[-—–]\s*\d{1,4}\s*[-—–]$/gm, // "— 42 —" or "- 42 -"
+      /^\[\d{1,4}\]$/gm, // "[42]"
+      /^\(\d{1,4}\)$/gm, // "(42)"
+    ],
+
+    // Chapter markers that are just numbers
+    chapterMarker: [
+      new RegExp(`^(${words("chapter")})\\s*\\d+$`, "gim"),
+      ROMAN_NUMERAL_LINE,
+      new RegExp(`^(${words("part")})\\s+\\d+$`, "gim"),
+      new RegExp(`^(${words("section")})\\s+\\d+$`, "gim"),
+    ],
+
+    // Common header/footer patterns
+    headerFooter: [
+      /^(copyright|©).*$/gim,
+      new RegExp(`^(${words("rights")}).*$`, "gim"),
+      /^isbn[\s:-]*[\d-]+$/gim,
+    ],
+  };
+  artifactPatterns.set(key, patterns);
+  return patterns;
 }
 
 /**
- * Remove common headers and footers
+ * Remove every match of the patterns from text
  */
-function removeHeaders(text: string): string {
+function removePatterns(text: string, patterns: RegExp[]): string {
   let result = text;
-  for (const pattern of ARTIFACT_PATTERNS.headerFooter) {
+  for (const pattern of patterns) {
     result = result.replace(pattern, "");
   }
   return result;
 }
 
+/**
+ * A line of text with its vertical position on the page
+ */
+export interface PositionedLine {
+  text: string;
+  y: number;
+}
+
+// Lines this close to the top or bottom edge of the text are candidates
+const RUNNING_LINE_DEPTH = 2;
+// Baselines within this many units count as the same position
+const RUNNING_LINE_TOLERANCE = 4;
+// Minimum number of pages a line must repeat on to be a header/footer
+const RUNNING_LINE_MIN_PAGES = 3;
+
+// A line that is only a page number: "42", "Page 42", "- 42 -", "[42]", "xii"
+// Roman page numbers must be well formed and below D, so words like "civil"
+// or "mix" are kept
+const PAGE_NUMBER_LINE =
+  /^((page|p\.)\s*)?(\d{1,4}|(?=[clxvi])c{0,3}(xc|xl|l?x{0,3})(ix|iv|v?i{0,3}))$|^[-—–]\s*\d{1,4}\s*[-—–]$|^[[(]\d{1,4}[\])]$/i;
+
+/**
+ * Get the lines nearest the top and bottom edges of a page
+ */
+function edgeLines<T extends PositionedLine>(
+  lines: T[],
+  depth: number,
+): Set<T> {
+  const byHeight = [...lines].sort((a, b) => b.y - a.y);
+  return new Set([...byHeight.slice(0, depth), ...byHeight.slice(-depth)]);
+}
+
+/**
+ * Reduce a line to a comparison key, so "Chapter 3 · 47" and
+ * "Chapter 3 · 48" match
+ */
+function runningLineKey(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, "#").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Remove running headers and footers from per-page lines
+ * A line is dropped when it sits at the top or bottom of its page and a line
+ * with the same text (ignoring numbers) appears at the same height on other pages
+ */
+export function removeRunningHeaders<T extends PositionedLine>(
+  pages: T[][],
+): T[][] {
+  if (pages.length < RUNNING_LINE_MIN_PAGES) return pages;
+
+  // Collect the topmost and bottommost lines of each page, grouped by text
+  const candidates = new Map<string, { page: number; line: T }[]>();
+  pages.forEach((lines, page) => {
+    edgeLines(lines, RUNNING_LINE_DEPTH).forEach((line) => {
+      const key = runningLineKey(line.text);
+      if (key.length === 0) return;
+      const group = candidates.get(key) || [];
+      group.push({ page, line });
+      candidates.set(key, group);
+    });
+  });
+
+  const running = new Set<T>();
+  candidates.forEach((group) => {
+    if (group.length < RUNNING_LINE_MIN_PAGES) return;
+
+    for (const { line } of group) {
+      const pagesAtHeight = new Set(
+        group
+          .filter(
+            (other) => Math.abs(other.line.y - line.y) <= RUNNING_LINE_TOLERANCE,
+          )
+          .map((other) => other.page),
+      );
+      if (pagesAtHeight.size >= RUNNING_LINE_MIN_PAGES) {
+        running.add(line);
+      }
+    }
+  });
+
+  if (running.size === 0) return pages;
+  return pages.map((lines) => lines.filter((line) => !running.has(line)));
+}
+
+/**
+ * Remove page numbers from per-page lines
+ * Only the topmost and bottommost line of a page is dropped, so a number
+ * standing alone in the body text is kept. Run after removeRunningHeaders,
+ * so a page number below a running header is at the edge
+ */
+export function removePageNumberLines<T extends PositionedLine>(
+  pages: T[][],
+): T[][] {
+  return pages.map((lines) => {
+    const edges = edgeLines(lines, 1);
+    return lines.filter(
+      (line) => !(edges.has(line) && PAGE_NUMBER_LINE.test(line.text.trim())),
+    );
+  });
+}
+
 /**
  * Handle hyphenation at line breaks
  * Joins words that were split across lines with a hyphen
@@ -101,21 +277,94 @@ function collapseWhitespace(text: string): string {
     .trim();
 }
 
+// Named (case-sensitive), decimal and hexadecimal character references
+const CHARACTER_REFERENCE_PATTERN =
+  /&(#[xX][0-9a-fA-F]{1,8}|#\d{1,8}|[A-Za-z][A-Za-z0-9]{1,31});/g;
+
+/**
+ * Decode HTML named entities and numeric character references
+ * Numeric references in 0x80-0x9F are read as Windows-1252, as browsers do,
+ * and soft hyphens are dropped. Unknown entities are left as written
+ */
+export function decodeHtmlEntities(text: string): string {
+  if (!text.includes("&")) return text;
+
+  return text.replace(CHARACTER_REFERENCE_PATTERN, (match, ref: string) => {
+    let decoded: string | undefined;
+    if (ref[0] === "#") {
+      const code =
+        ref[1] === "x" || ref[1] === "X"
+          ? parseInt(ref.slice(2), 16)
+          : parseInt(ref.slice(1), 10);
+      if (code >= 0x80 && code <= 0x9f) {
+        decoded = decodeWindows1252(new Uint8Array([code]));
+      } else if (
+        code === 0 ||
+        code > 0x10ffff ||
+        (code & 0x1ff800) === 0xd800
+      ) {
+        decoded = "\uFFFD"; // Null, out of range or a lone surrogate
+      } else {
+        decoded = String.fromCodePoint(code);
+      }
+    } else {
+      decoded = HTML_ENTITIES[ref];
+    }
+
+    if (decoded === undefined) return match;
+    return decoded === "\u00AD" ? "" : decoded;
+  });
+}
+
+/**
+ * Wrap a heading's text in heading marks
+ */
+export function markHeading(text: string): string {
+  return `\n\n${HEADING_START}\n${text}\n${HEADING_END}\n\n`;
+}
+
+/**
+ * Wrap italic or bold text in emphasis marks
+ */
+export function markEmphasis(text: string): string {
+  return `${EMPHASIS_START}${text}${EMPHASIS_END}`;
+}
+
+/**
+ * Remove heading and emphasis marks, e.g. from text used as a title
+ */
+export function removeStructureMarks(text: string): string {
+  return text.replace(STRUCTURE_MARKS, "");
+}
+
+/**
+ * Convert HTML to text for tokenizing, keeping paragraph breaks and marking
+ * headings and emphasis
+ */
+export function htmlToText(html: string): string {
+  const marked = html
+    .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, "")
+    .replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, "")
+    .replace(/<h[1-6]\b[^>]*>/gi, `\n\n${HEADING_START}\n`)
+    .replace(/<\/h[1-6]\s*>/gi, `\n${HEADING_END}\n\n`)
+    .replace(/<(em|i|strong|b)\b[^>]*>/gi, EMPHASIS_START)
+    .replace(/<\/(em|i|strong|b)\s*>/gi, EMPHASIS_END)
+    .replace(
+      /<\/?(p|div|br|blockquote|li|tr|hr|section|mbp:pagebreak)\b[^>]*>/gi,
+      "\n\n",
+    );
+  return stripHtmlTags(marked);
+}
+
 /**
  * Strip HTML tags from text (for EPUB content)
  */
 export function stripHtmlTags(html: string): string {
-  return html
+  const text = html
     .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, "") // Remove scripts
     .replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, "") // Remove styles
-    .replace(/<[^>]+>/g, " ") // Remove all HTML tags
-    .replace(/&nbsp;/gi, " ")
-    .replace(/&amp;/gi, "&")
-    .replace(/&lt;/gi, "<")
-    .replace(/&gt;/gi, ">")
-    .replace(/&quot;/gi, '"')
-    .replace(/&#39;/gi, "'")
-    .replace(/&[a-z]+;/gi, " "); // Remove other HTML entities
+    .replace(/<[^>]+>/g, " "); // Remove all HTML tags
+  return decodeHtmlEntities(text);
 }
 
 /**
@@ -124,8 +373,10 @@ export function stripHtmlTags(html: string): string {
  */
 export function normalizeText(
   text: string,
-  options: NormalizationOptions = DEFAULT_OPTIONS,
+  normalizationOptions: NormalizationOptions = {},
 ): string {
+  const options = { ...DEFAULT_OPTIONS, ...normalizationOptions };
+  const patterns = getArtifactPatterns(options.language);
   let result = text;
 
   if (options.handleHyphenation) {
@@ -133,15 +384,15 @@ export function normalizeText(
   }
 
   if (options.removePageNumbers) {
-    result = removePageNumbers(result);
+    result = removePatterns(result, patterns.pageNumber);
   }
 
   if (options.removeChapterMarkers) {
-    result = removeChapterMarkers(result);
+    result = removePatterns(result, patterns.chapterMarker);
   }
 
   if (options.removeHeaders) {
-    result = removeHeaders(result);
+    result = removePatterns(result, patterns.headerFooter);
   }
 
   if (options.collapseWhitespace) {
@@ -151,15 +402,111 @@ export function normalizeText(
   return result;
 }
 
+// Spread arguments are limited by the call stack, so long lists are added
+// in slices
+const APPEND_CHUNK_SIZE = 10000;
+
 /**
- * Split text into words for speed reading
- * Keeps punctuation attached to words
+ * Add words to the end of a list in place
+ * Unlike concat, this doesn't copy the whole list for every part of a book
  */
-export function tokenizeWords(text: string): string[] {
-  return text
-    .split(/\s+/)
-    .filter((word) => word.length > 0)
-    .filter((word) => !/^[\d]+$/.test(word)); // Remove standalone numbers
+export function appendWords(target: WordToken[], words: WordToken[]): void {
+  for (let i = 0; i < words.length; i += APPEND_CHUNK_SIZE) {
+    target.push(...words.slice(i, i + APPEND_CHUNK_SIZE));
+  }
+}
+
+/**
+ * Split text into word tokens for speed reading
+ * Keeps punctuation attached to words. Blank lines start paragraphs, and
+ * heading and emphasis marks are read into the tokens. When the text
+ * continues a paragraph, its first word doesn't start one. Text in scripts
+ * written without spaces is segmented into words for the given language
+ */
+export function tokenizeWords(
+  text: string,
+  continuesParagraph: boolean = false,
+  language?: string,
+): WordToken[] {
+  const tokens: WordToken[] = [];
+  let heading = false;
+  let emphasisDepth = 0;
+
+  // Read the marks in a part, returning its text. Unspaced text is cut at
+  // emphasis marks, as its words are only found afterwards
+  const readMarks = (part: string, split: boolean) => {
+    const pieces = [{ text: "", emphasis: emphasisDepth > 0 }];
+    if (!STRUCTURE_MARK_PATTERN.test(part)) {
+      pieces[0].text = part;
+      return pieces;
+    }
+
+    for (const char of part) {
+      const piece = pieces[pieces.length - 1];
+      if (char === HEADING_START) heading = true;
+      else if (char === HEADING_END) heading = false;
+      else if (char === EMPHASIS_START || char === EMPHASIS_END) {
+        emphasisDepth =
+          char === EMPHASIS_START
+            ? emphasisDepth + 1
+            : Math.max(0, emphasisDepth - 1);
+        if (split && piece.text) {
+          pieces.push({ text: "", emphasis: emphasisDepth > 0 });
+        }
+      } else {
+        piece.text += char;
+        if (emphasisDepth > 0) piece.emphasis = true;
+      }
+    }
+    return pieces;
+  };
+
+  text.split(/\n[^\S\n]*\n\s*/).forEach((paragraph, paragraphIndex) => {
+    let paragraphStart = paragraphIndex > 0 || !continuesParagraph;
+
+    for (const part of paragraph.split(/\s+/)) {
+      const unspaced = hasUnspacedScript(part);
+      const partStart = tokens.length;
+
+      for (const piece of readMarks(part, unspaced)) {
+        const words = unspaced
+          ? segmentWords(piece.text, language)
+          : [piece.text];
+
+        for (const word of words) {
+          if (word.length === 0) continue;
+
+          // Punctuation after an emphasis mark joins the word before it
+          if (tokens.length > partStart && !/[\p{L}\p{N}]/u.test(word)) {
+            tokens[tokens.length - 1].text += word;
+            continue;
+          }
+
+          const token: WordToken = { text: word };
+          if (paragraphStart) token.paragraphStart = true;
+          if (heading) token.heading = true;
+          if (piece.emphasis) token.emphasis = true;
+          tokens.push(token);
+          paragraphStart = false;
+        }
+      }
+    }
+  });
+
+  // Mark sentence ends, unless the next word carries on in lowercase
+  tokens.forEach((token, i) => {
+    const text = token.text.replace(TRAILING_NOTE_MARKERS, "");
+    if (!SENTENCE_END_PATTERN.test(text)) return;
+    if (ABBREVIATION_PATTERN.test(text)) return;
+
+    const next = tokens[i + 1];
+    if (next && !next.paragraphStart && /^["'“‘«(]*\p{Ll}/u.test(next.text)) {
+      return;
+    }
+    token.sentenceEnd = true;
+  });
+
+  return tokens;
 }
 
 /**
@@ -0,0 +1,244 @@
+// Text Parser Service
+// Extracts words from plain text and Markdown files
+
+import * as FileSystem from "expo-file-system/legacy";
+import { Chapter, WordToken } from "./book-storage";
+import { detectDocumentLanguage } from "./language-detector";
+import { base64ToBytes, decodeText } from "./text-encoding";
+import {
+  appendWords,
+  markEmphasis,
+  markHeading,
+  normalizeText,
+  removeStructureMarks,
+  tokenizeWords,
+} from "./text-normalizer";
+
+interface TextContent {
+  title?: string;
+  language?: string; // The language given, or else the detected one
+  words: WordToken[];
+  chapters: Chapter[];
+}
+
+// Headings up to this level (# and ##) become chapters
+const MAX_CHAPTER_LEVEL = 2;
+
+// Escaped characters are parked in the Private Use Area while stripping
+const ESCAPE_BASE = 0xe000;
+
+/**
+ * Parse a plain text file
+ * The text is normalized for the given language, or else the detected one
+ */
+export async function parsePlainText(
+  filePath: string,
+  language?: string,
+): Promise<TextContent> {
+  try {
+    const text = await readTextFile(filePath);
+    const textLanguage = language || detectDocumentLanguage([text]);
+    return {
+      language: textLanguage,
+      words: tokenizeWords(
+        normalizeText(text, { language: textLanguage }),
+        false,
+        textLanguage,
+      ),
+      chapters: [],
+    };
+  } catch (error) {
+    console.error("Error parsing text file:", error);
+    throw error;
+  }
+}
+
+/**
+ * Parse a Markdown file
+ * Headings become chapters and formatting syntax is stripped from the words.
+ * The text is normalized for the given language, or else the detected one
+ */
+export async function parseMarkdown(
+  filePath: string,
+  language?: string,
+): Promise<TextContent> {
+  try {
+    const source = await readTextFile(filePath);
+    const { frontMatterTitle, body } = splitFrontMatter(source);
+    const textLanguage = language || detectDocumentLanguage([body]);
+
+    const allWords: WordToken[] = [];
+    const chapters: Chapter[] = [];
+    let firstHeading: string | undefined;
+    let paragraph: string[] = [];
+    let fence: string | null = null;
+    let previousBlank = true;
+
+    const flush = () => {
+      const text = normalizeText(paragraph.join("\n"), {
+        language: textLanguage,
+      });
+      appendWords(allWords, tokenizeWords(text, false, textLanguage));
+      paragraph = [];
+    };
+
+    const addHeading = (heading: string, level: number) => {
+      flush();
+      const title = removeStructureMarks(heading);
+      if (title.length === 0) return;
+
+      if (level === 1 && !firstHeading) firstHeading = title;
+      if (level <= MAX_CHAPTER_LEVEL) {
+        chapters.push({ title, startIndex: allWords.length });
+      }
+
+      // The heading itself is read as its own paragraph
+      paragraph.push(markHeading(heading));
+      flush();
+    };
+
+    // HTML comments may span several lines
+    const lines = body.replace(/<!--[\s\S]*?-->/g, "").split("\n");
+
+    for (const line of lines) {
+      // Fenced code blocks are kept verbatim, without the fences
+      const fenceMatch = line.match(/^ {0,3}(`{3,}|~{3,})/);
+      if (fence) {
+        if (
+          fenceMatch &&
+          fenceMatch[1][0] === fence[0] &&
+          fenceMatch[1].length >= fence.length
+        ) {
+          fence = null;
+          flush();
+        } else {
+          paragraph.push(line);
+        }
+        continue;
+      }
+      if (fenceMatch) {
+        flush();
+        fence = fenceMatch[1];
+        continue;
+      }
+
+      const blank = line.trim().length === 0;
+
+      // "Title\n=====" and "Title\n-----" (setext headings)
+      const setext = line.match(/^ {0,3}(=+|-+)\s*$/);
+      if (setext && !previousBlank && paragraph.length > 0) {
+        const title = paragraph.pop() || "";
+        addHeading(title, setext[1][0] === "=" ? 1 : 2);
+        previousBlank = false;
+        continue;
+      }
+
+      const atx = line.match(/^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/);
+      if (atx) {
+        addHeading(stripInlineMarkdown(atx[2] || ""), atx[1].length);
+      } else if (blank || isHorizontalRule(line) || isTableDivider(line)) {
+        flush();
+      } else if (!/^ {0,3}\[[^\]]+\]:\s*\S/.test(line)) {
+        // Skip reference definitions ("[id]: https://..."), keep everything else
+        paragraph.push(stripInlineMarkdown(stripBlockMarkers(line)));
+      }
+
+      previousBlank = blank;
+    }
+    flush();
+
+    return {
+      title: frontMatterTitle || firstHeading,
+      language: textLanguage,
+      words: allWords,
+      chapters,
+    };
+  } catch (error) {
+    console.error("Error parsing Markdown file:", error);
+    throw error;
+  }
+}
+
+/**
+ * Read a text file, detecting its encoding, with normalized line endings
+ */
+async function readTextFile(filePath: string): Promise<string> {
+  const fileContent = await FileSystem.readAsStringAsync(filePath, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return decodeText(base64ToBytes(fileContent)).replace(/\r\n?/g, "\n");
+}
+
+/**
+ * Separate YAML front matter ("---" ... "---") from the document body
+ */
+function splitFrontMatter(source: string): {
+  frontMatterTitle?: string;
+  body: string;
+} {
+  const match = source.match(/^---\n([\s\S]*?)\n(?:---|\.\.\.)\n/);
+  if (!match) return { body: source };
+
+  const titleLine = match[1].match(/^title:\s*(.+)$/m);
+  const frontMatterTitle = titleLine
+    ? titleLine[1].trim().replace(/^(["'])(.*)\1$/, "$2")
+    : undefined;
+
+  return { frontMatterTitle, body: source.slice(match[0].length) };
+}
+
+function isHorizontalRule(line: string): boolean {
+  return /^ {0,3}([-*_])(\s*\1){2,}\s*$/.test(line);
+}
+
+/**
+ * Table divider rows like "| --- | :---: |"
+ */
+function isTableDivider(line: string): boolean {
+  return (
+    line.includes("-") && /^\s*\|?(\s*:?-+:?\s*\|)+\s*(:?-+:?\s*)?$/.test(line)
+  );
+}
+
+/**
+ * Remove block-level markers: quotes, list bullets, task boxes, table pipes
+ */
+function stripBlockMarkers(line: string): string {
+  return line
+    .replace(/^\s*(>\s?)+/, "") // Blockquotes
+    .replace(/^\s*([-*+]|\d{1,9}[.)])\s+/, "") // List items
+    .replace(/^\[[ xX]\]\s+/, "") // Task list boxes
+    .replace(/\s*\|\s*/g, " "); // Table cells
+}
+
+/**
+ * Remove inline formatting, keeping the text it wraps; bold and italic text
+ * is marked as emphasis
+ */
+function stripInlineMarkdown(text: string): string {
+  // Hide escaped characters ("\*") from the patterns below, then restore them
+  const escaped = text.replace(/\\([\\`*_{}[\]()#+\-.!<>|~])/g, (_, char) =>
+    String.fromCharCode(ESCAPE_BASE + char.charCodeAt(0)),
+  );
+
+  return escaped
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "") // Images
+    .replace(/\[\^[^\]]+\]/g, "") // Footnote references
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1") // Inline links
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, "$1") // Reference links
+    .replace(/<(?:https?|mailto):[^>]+>/g, "") // Autolinks
+    .replace(/<\/?[a-zA-Z][^>]*>/g, "") // Inline HTML tags
+    .replace(/(`+)([\s\S]+?)\1/g, "$2") // Inline code
+    .replace(/(\*\*|__)(\S(?:[\s\S]*?\S)?)\1/g, (_, __, inner) =>
+      markEmphasis(inner),
+    ) // Bold
+    .replace(/\*(\S(?:[\s\S]*?\S)?)\*/g, (_, inner) => markEmphasis(inner)) // Italic with *
+    .replace(
+      /(^|[^\w])_(\S(?:[\s\S]*?\S)?)_(?!\w)/g,
+      (_, before, inner) => before + markEmphasis(inner),
+    ) // Italic with _
+    .replace(/~~([\s\S]+?)~~/g, "$1") // Strikethrough
+    .replace(/[\uE000-\uE07F]/g, (char) =>
+      String.fromCharCode(char.charCodeAt(0) - ESCAPE_BASE),
+    );
+}
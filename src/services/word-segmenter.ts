@@ -0,0 +1,275 @@
+// Word Segmenter Service
+// Splits text in scripts written without spaces (Chinese, Japanese, Thai,
+// ...) into words, using Intl.Segmenter or a bundled dictionary
+
+import { getPrimaryLanguage } from "./language-detector";
+
+// Characters of scripts that don't put spaces between words
+export const UNSPACED_SCRIPT_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+// Characters read as one syllable or morpheme each, for placing the focus
+// point. Korean is written with spaces, so it's tokenized on spaces and is
+// not an unspaced script, but each Hangul block is a whole syllable, so its
+// words are focused by syllable like kana
+const IDEOGRAPHIC_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}ー]/u;
+
+// Punctuation that belongs to the word after it, like an opening quote
+const OPENING_PUNCTUATION = /^[\p{Ps}\p{Pi}]+$/u;
+
+// Languages of the unspaced scripts, by the script that identifies them
+const SCRIPT_LANGUAGES: [RegExp, string][] = [
+  [/[\p{Script=Hiragana}\p{Script=Katakana}]/u, "ja"],
+  [/\p{Script=Han}/u, "zh"],
+  [/\p{Script=Thai}/u, "th"],
+  [/\p{Script=Lao}/u, "lo"],
+  [/\p{Script=Khmer}/u, "km"],
+  [/\p{Script=Myanmar}/u, "my"],
+];
+
+// Bundled dictionary of each language; Chinese and Japanese share one
+const DICTIONARY_NAMES: Record<string, string> = {
+  zh: "cj",
+  ja: "cj",
+  th: "th",
+  lo: "lo",
+  km: "km",
+  my: "my",
+};
+
+// A character missing from the dictionary costs more than a word, so known
+// words are preferred over reading characters one by one
+const UNKNOWN_CHARACTER_COST = 2;
+
+/**
+ * A piece of segmented text; punctuation and symbols are not word-like
+ */
+interface Segment {
+  text: string;
+  isWordLike: boolean;
+}
+
+const segmenters = new Map<string, Intl.Segmenter>();
+const dictionaries = new Map<
+  string,
+  { words: Set<string>; maxLength: number }
+>();
+
+/**
+ * Check whether text contains a script written without spaces
+ */
+export function hasUnspacedScript(text: string): boolean {
+  return UNSPACED_SCRIPT_PATTERN.test(text);
+}
+
+/**
+ * Check whether a word is written in ideographs or syllabic kana/hangul
+ */
+export function isIdeographicWord(word: string): boolean {
+  return IDEOGRAPHIC_PATTERN.test(word);
+}
+
+/**
+ * Pick the segmentation language for text, from the book's language where
+ * it matches the script, or else from the script itself
+ * Han text in a Japanese book is Japanese; kana always is
+ */
+export function resolveSegmentationLanguage(
+  text: string,
+  language?: string,
+): string | undefined {
+  const bookLanguage = getPrimaryLanguage(language);
+  const detected = SCRIPT_LANGUAGES.find(([pattern]) =>
+    pattern.test(text),
+  )?.[1];
+  if (detected === "zh" && bookLanguage === "ja") return "ja";
+  return detected || bookLanguage;
+}
+
+/**
+ * Split a run of text without spaces into words
+ * Punctuation is attached to the word it follows, or to the next word when
+ * it opens a quote or bracket
+ */
+export function segmentWords(text: string, language?: string): string[] {
+  if (!hasUnspacedScript(text)) return [text];
+
+  const locale = resolveSegmentationLanguage(text, language);
+  const segmenter = getSegmenter(locale);
+  const segments: Segment[] = segmenter
+    ? Array.from(segmenter.segment(text), (segment) => ({
+        text: segment.segment,
+        isWordLike: !!segment.isWordLike,
+      }))
+    : segmentWithDictionary(text, locale);
+
+  return joinPunctuation(segments);
+}
+
+/**
+ * Get a cached Intl.Segmenter, or null where the engine doesn't provide one
+ */
+function getSegmenter(locale?: string): Intl.Segmenter | null {
+  if (typeof Intl === "undefined" || typeof Intl.Segmenter !== "function") {
+    return null;
+  }
+
+  const key = locale || "";
+  let segmenter = segmenters.get(key);
+  if (!segmenter) {
+    try {
+      segmenter = new Intl.Segmenter(locale, { granularity: "word" });
+    } catch {
+      segmenter = new Intl.Segmenter(undefined, { granularity: "word" });
+    }
+    segmenters.set(key, segmenter);
+  }
+  return segmenter;
+}
+
+/**
+ * Get the bundled word list of a language as a set
+ * The lists are megabytes of text, so their module is only loaded the first
+ * time a book needs one
+ */
+function getDictionary(locale?: string) {
+  const key = DICTIONARY_NAMES[locale || ""] || "";
+  let dictionary = dictionaries.get(key);
+  if (!dictionary) {
+    const {
+      SEGMENTATION_DICTIONARY,
+    }: typeof import("./segmentation-dictionary") =
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      require("./segmentation-dictionary");
+    const words = (SEGMENTATION_DICTIONARY[key] || "")
+      .split(/\s+/)
+      .filter((word) => word.length > 0);
+    dictionary = {
+      words: new Set(words),
+      maxLength: Math.max(0, ...words.map((word) => word.length)),
+    };
+    dictionaries.set(key, dictionary);
+  }
+  return dictionary;
+}
+
+/**
+ * Classify a character for the dictionary fallback, so runs of unknown
+ * characters of the same kind stay together
+ */
+function characterClass(char: string): string {
+  if (/\p{Script=Han}/u.test(char)) return "han";
+  if (/[\p{Script=Katakana}ー]/u.test(char)) return "katakana";
+  if (/\p{Script=Hiragana}/u.test(char)) return "hiragana";
+  if (UNSPACED_SCRIPT_PATTERN.test(char)) return "alphabetic";
+  if (/[\p{L}\p{N}\p{M}]/u.test(char)) return "spaced";
+  return "punctuation";
+}
+
+/**
+ * Segment text into the fewest dictionary words (maximal matching)
+ * Ties go to the longer first word. Unknown Han characters are read one at
+ * a time; other unknown characters are grouped with their neighbours of the
+ * same class
+ */
+function segmentWithDictionary(text: string, locale?: string): Segment[] {
+  const { words, maxLength } = getDictionary(locale);
+  const length = text.length;
+
+  // Cheapest way to segment the text from each position to the end, found
+  // backwards; next[i] is where the first piece from i ends
+  const cost = new Array<number>(length + 1).fill(0);
+  const next = new Array<number>(length + 1).fill(length);
+  const known = new Array<boolean>(length + 1).fill(false);
+
+  for (let pos = length - 1; pos >= 0; pos--) {
+    cost[pos] = Infinity;
+    for (let end = Math.min(length, pos + maxLength); end > pos; end--) {
+      // A word can't end before a combining mark, as in Thai vowels
+      if (!words.has(text.slice(pos, end)) || /\p{M}/u.test(text.charAt(end))) {
+        continue;
+      }
+      if (cost[end] + 1 < cost[pos]) {
+        cost[pos] = cost[end] + 1;
+        next[pos] = end;
+        known[pos] = true;
+      }
+    }
+
+    // Or read one character, with its combining marks
+    const end = clusterEnd(text, pos);
+    if (cost[end] + UNKNOWN_CHARACTER_COST < cost[pos]) {
+      cost[pos] = cost[end] + UNKNOWN_CHARACTER_COST;
+      next[pos] = end;
+      known[pos] = false;
+    }
+  }
+
+  const segments: Segment[] = [];
+  let pendingClass = "";
+  for (let pos = 0; pos < length; pos = next[pos]) {
+    const piece = text.slice(pos, next[pos]);
+    if (known[pos]) {
+      segments.push({ text: piece, isWordLike: true });
+      pendingClass = "";
+      continue;
+    }
+
+    const last = segments[segments.length - 1];
+    const charClass = characterClass(piece);
+    // Iteration marks stay with what they follow
+    if (/^[々ๆ]/u.test(piece) && last) {
+      last.text += piece;
+    } else if (
+      charClass === pendingClass &&
+      charClass !== "han" &&
+      charClass !== "punctuation"
+    ) {
+      last.text += piece;
+    } else {
+      segments.push({ text: piece, isWordLike: charClass !== "punctuation" });
+      pendingClass = charClass;
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Find the end of the character at a position and its combining marks
+ */
+function clusterEnd(text: string, pos: number): number {
+  let end = pos + String.fromCodePoint(text.codePointAt(pos)!).length;
+  while (end < text.length && /\p{M}/u.test(text.charAt(end))) end++;
+  return end;
+}
+
+/**
+ * Join punctuation segments to the words around them
+ */
+function joinPunctuation(segments: Segment[]): string[] {
+  const words: string[] = [];
+  let prefix = "";
+
+  for (const segment of segments) {
+    if (segment.isWordLike) {
+      words.push(prefix + segment.text);
+      prefix = "";
+    } else if (
+      words.length === 0 ||
+      prefix ||
+      OPENING_PUNCTUATION.test(segment.text)
+    ) {
+      prefix += segment.text;
+    } else {
+      words[words.length - 1] += segment.text;
+    }
+  }
+
+  if (prefix) {
+    if (words.length > 0) words[words.length - 1] += prefix;
+    else words.push(prefix);
+  }
+  return words;
+}
@@ -0,0 +1,285 @@
+// XML Parser Service
+// Tolerant XML/XHTML parser producing a simple element tree
+
+import { decodeHtmlEntities } from "./text-normalizer";
+
+export interface XMLElement {
+  type: "element";
+  name: string;
+  attributes: Record<string, string>;
+  children: XMLNode[];
+}
+
+export interface XMLText {
+  type: "text";
+  text: string;
+}
+
+export type XMLNode = XMLElement | XMLText;
+
+// HTML elements that never have content, even when written without "/>"
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr",
+]);
+
+/**
+ * Parse an XML or XHTML document
+ * Returns a synthetic "#document" element holding the top-level nodes
+ *
+ * Malformed markup is tolerated: unclosed elements are closed by their
+ * parent's end tag, and stray end tags are ignored
+ */
+export function parseXML(source: string): XMLElement {
+  const root: XMLElement = {
+    type: "element",
+    name: "#document",
+    attributes: {},
+    children: [],
+  };
+  const stack: XMLElement[] = [root];
+  let pos = 0;
+
+  const addText = (text: string) => {
+    if (text.length === 0) return;
+    stack[stack.length - 1].children.push({ type: "text", text });
+  };
+
+  while (pos < source.length) {
+    const lt = source.indexOf("<", pos);
+    if (lt < 0) {
+      addText(decodeXMLEntities(source.slice(pos)));
+      break;
+    }
+    if (lt > pos) addText(decodeXMLEntities(source.slice(pos, lt)));
+    pos = lt;
+
+    if (source.startsWith("<!--", pos)) {
+      pos = skipPast(source, "-->", pos + 4);
+    } else if (source.startsWith("<![CDATA[", pos)) {
+      const end = source.indexOf("]]>", pos + 9);
+      const stop = end < 0 ? source.length : end;
+      addText(source.slice(pos + 9, stop));
+      pos = stop + 3;
+    } else if (source.startsWith("<?", pos)) {
+      pos = skipPast(source, "?>", pos + 2);
+    } else if (source.startsWith("<!", pos)) {
+      pos = skipDeclaration(source, pos);
+    } else if (source.startsWith("</", pos)) {
+      const end = source.indexOf(">", pos);
+      const stop = end < 0 ? source.length : end;
+      const name = source
+        .slice(pos + 2, stop)
+        .trim()
+        .toLowerCase();
+      pos = stop + 1;
+
+      // Close the nearest open element with this name, and anything inside it
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].name.toLowerCase() === name) {
+          stack.length = i;
+          break;
+        }
+      }
+    } else if (/[A-Za-z_:]/.test(source[pos + 1] || "")) {
+      const end = findTagEnd(source, pos + 1);
+      const raw = source.slice(pos + 1, end);
+      pos = end + 1;
+
+      const selfClosing = raw.endsWith("/");
+      const body = selfClosing ? raw.slice(0, -1) : raw;
+      const nameMatch = body.match(/^[^\s/>]+/);
+      const name = nameMatch ? nameMatch[0] : "";
+
+      const element: XMLElement = {
+        type: "element",
+        name,
+        attributes: parseAttributes(body.slice(name.length)),
+        children: [],
+      };
+      stack[stack.length - 1].children.push(element);
+
+      const lower = name.toLowerCase();
+      if (selfClosing || VOID_ELEMENTS.has(lower)) continue;
+
+      // Script and style content is raw text, not markup
+      if (lower === "script" || lower === "style") {
+        const closeTag = new RegExp(`</${lower}\\b`, "gi");
+        closeTag.lastIndex = pos;
+        const close = closeTag.exec(source);
+        const stop = close ? close.index : source.length;
+        element.children.push({ type: "text", text: source.slice(pos, stop) });
+        pos = skipPast(source, ">", stop);
+        continue;
+      }
+
+      stack.push(element);
+    } else {
+      // A "<" that doesn't start a tag is text
+      addText("<");
+      pos++;
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Decode entities and character references in text and attribute values
+ * XHTML ebooks use the full HTML entity set, so all of it is recognised;
+ * unknown named entities are left as written
+ */
+export function decodeXMLEntities(text: string): string {
+  return decodeHtmlEntities(text);
+}
+
+/**
+ * Strip a namespace prefix ("dc:title" -> "title")
+ */
+export function localName(name: string): string {
+  const colon = name.indexOf(":");
+  return (colon < 0 ? name : name.slice(colon + 1)).toLowerCase();
+}
+
+/**
+ * Get the first child element with the given local name (case-insensitive)
+ */
+export function getChild(
+  element: XMLElement | null | undefined,
+  name: string,
+): XMLElement | null {
+  if (!element) return null;
+  const wanted = name.toLowerCase();
+  for (const child of element.children) {
+    if (child.type === "element" && localName(child.name) === wanted) {
+      return child;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get all child elements with the given local name (case-insensitive)
+ */
+export function getChildren(
+  element: XMLElement | null | undefined,
+  name: string,
+): XMLElement[] {
+  if (!element) return [];
+  const wanted = name.toLowerCase();
+  return element.children.filter(
+    (child): child is XMLElement =>
+      child.type === "element" && localName(child.name) === wanted,
+  );
+}
+
+/**
+ * Find all descendant elements with the given local name (case-insensitive),
+ * in document order
+ */
+export function findElements(
+  element: XMLElement | null | undefined,
+  name: string,
+): XMLElement[] {
+  const found: XMLElement[] = [];
+  const wanted = name.toLowerCase();
+  const walk = (node: XMLElement) => {
+    for (const child of node.children) {
+      if (child.type !== "element") continue;
+      if (localName(child.name) === wanted) found.push(child);
+      walk(child);
+    }
+  };
+  if (element) walk(element);
+  return found;
+}
+
+/**
+ * Get an attribute by local name, ignoring any namespace prefix and case
+ */
+export function getAttribute(
+  element: XMLElement | null | undefined,
+  name: string,
+): string | undefined {
+  if (!element) return undefined;
+  if (name in element.attributes) return element.attributes[name];
+
+  const wanted = name.toLowerCase();
+  for (const key of Object.keys(element.attributes)) {
+    if (localName(key) === wanted) return element.attributes[key];
+  }
+  return undefined;
+}
+
+/**
+ * Concatenate all text inside a node
+ */
+export function getTextContent(node: XMLNode | null | undefined): string {
+  if (!node) return "";
+  if (node.type === "text") return node.text;
+  return node.children.map(getTextContent).join("");
+}
+
+/**
+ * Parse the attribute part of a start tag
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source)) !== null) {
+    const value = match[2] ?? match[3] ?? match[4] ?? "";
+    attributes[match[1]] = decodeXMLEntities(value);
+  }
+  return attributes;
+}
+
+/**
+ * Find the ">" that ends a tag, skipping over quoted attribute values
+ */
+function findTagEnd(source: string, pos: number): number {
+  let quote: string | null = null;
+  for (let i = pos; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ">") {
+      return i;
+    }
+  }
+  return source.length;
+}
+
+/**
+ * Skip a "<!DOCTYPE ...>" declaration, including any internal subset
+ */
+function skipDeclaration(source: string, pos: number): number {
+  let depth = 0;
+  for (let i = pos + 2; i < source.length; i++) {
+    const char = source[i];
+    if (char === "[") depth++;
+    else if (char === "]") depth--;
+    else if (char === ">" && depth <= 0) return i + 1;
+  }
+  return source.length;
+}
+
+function skipPast(source: string, marker: string, pos: number): number {
+  const index = source.indexOf(marker, pos);
+  return index < 0 ? source.length : index + marker.length;
+}